@@ -0,0 +1,131 @@
+/**
+ * HTTP Authentication Properties
+ *
+ * Credential fields shared by the download and upload authentication credential types.
+ * n8n can only select one credential per type, so the source and the destination each get
+ * their own type with the same fields.
+ *
+ * @module credentials/HttpAuthProperties
+ */
+
+import type { INodeProperties } from 'n8n-workflow';
+
+export const httpAuthProperties: INodeProperties[] = [
+	{
+		displayName: 'Authentication Type',
+		name: 'authType',
+		type: 'options',
+		options: [
+			{
+				name: 'Basic Auth',
+				value: 'basic',
+			},
+			{
+				name: 'Bearer Token',
+				value: 'bearer',
+			},
+			{
+				name: 'Custom Header',
+				value: 'header',
+			},
+			{
+				name: 'Query Parameter',
+				value: 'query',
+				description: 'API key sent as a URL query parameter',
+			},
+		],
+		default: 'bearer',
+	},
+	{
+		displayName: 'User',
+		name: 'user',
+		type: 'string',
+		default: '',
+		displayOptions: {
+			show: {
+				authType: ['basic'],
+			},
+		},
+	},
+	{
+		displayName: 'Password',
+		name: 'password',
+		type: 'string',
+		typeOptions: {
+			password: true,
+		},
+		default: '',
+		displayOptions: {
+			show: {
+				authType: ['basic'],
+			},
+		},
+	},
+	{
+		displayName: 'Token',
+		name: 'token',
+		type: 'string',
+		typeOptions: {
+			password: true,
+		},
+		default: '',
+		description: 'Sent as "Authorization: Bearer &lt;token&gt;"',
+		displayOptions: {
+			show: {
+				authType: ['bearer'],
+			},
+		},
+	},
+	{
+		displayName: 'Header Name',
+		name: 'headerName',
+		type: 'string',
+		default: '',
+		placeholder: 'X-API-Key',
+		displayOptions: {
+			show: {
+				authType: ['header'],
+			},
+		},
+	},
+	{
+		displayName: 'Header Value',
+		name: 'headerValue',
+		type: 'string',
+		typeOptions: {
+			password: true,
+		},
+		default: '',
+		displayOptions: {
+			show: {
+				authType: ['header'],
+			},
+		},
+	},
+	{
+		displayName: 'Parameter Name',
+		name: 'queryName',
+		type: 'string',
+		default: '',
+		placeholder: 'api_key',
+		displayOptions: {
+			show: {
+				authType: ['query'],
+			},
+		},
+	},
+	{
+		displayName: 'Parameter Value',
+		name: 'queryValue',
+		type: 'string',
+		typeOptions: {
+			password: true,
+		},
+		default: '',
+		displayOptions: {
+			show: {
+				authType: ['query'],
+			},
+		},
+	},
+];
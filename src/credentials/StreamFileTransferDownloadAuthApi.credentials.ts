@@ -0,0 +1,21 @@
+/**
+ * Download Authentication Credentials for Stream File Transfer
+ * 
+ * Basic, Bearer, custom header or query parameter authentication for the download (source) request.
+ * The node applies the credential itself, so no authenticate block is defined here.
+ * 
+ * @module credentials/StreamFileTransferDownloadAuthApi
+ */
+
+import type { ICredentialType, INodeProperties } from 'n8n-workflow';
+import { httpAuthProperties } from './HttpAuthProperties';
+
+export class StreamFileTransferDownloadAuthApi implements ICredentialType {
+	name = 'streamFileTransferDownloadAuthApi';
+
+	displayName = 'Stream File Transfer Download Auth API';
+
+	documentationUrl = 'https://github.com/MikaelX/n8n-nodes-stream-file#authentication';
+
+	properties: INodeProperties[] = httpAuthProperties;
+}
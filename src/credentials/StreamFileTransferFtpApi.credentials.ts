@@ -0,0 +1,38 @@
+/**
+ * FTP Credentials for Stream File Transfer
+ *
+ * Login used for ftp:// and ftps:// download and upload URLs. Host, port and whether TLS is
+ * used are taken from the URL, so the same credential works for every server that accepts the
+ * login.
+ *
+ * @module credentials/StreamFileTransferFtpApi
+ */
+
+import type { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class StreamFileTransferFtpApi implements ICredentialType {
+	name = 'streamFileTransferFtpApi';
+
+	displayName = 'Stream File Transfer FTP API';
+
+	documentationUrl = 'https://github.com/MikaelX/n8n-nodes-stream-file#ftp--ftps';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Username',
+			name: 'username',
+			type: 'string',
+			default: '',
+			required: true,
+		},
+		{
+			displayName: 'Password',
+			name: 'password',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+		},
+	];
+}
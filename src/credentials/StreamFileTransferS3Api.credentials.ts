@@ -0,0 +1,71 @@
+/**
+ * S3 Credentials for Stream File Transfer
+ * 
+ * Access keys and endpoint of an S3-compatible service (AWS S3, MinIO, Cloudflare R2, ...)
+ * used by the S3 multipart upload destination. Requests are signed with AWS Signature
+ * Version 4 by the node itself, so no authenticate block is defined here.
+ * 
+ * @module credentials/StreamFileTransferS3Api
+ */
+
+import type { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class StreamFileTransferS3Api implements ICredentialType {
+	name = 'streamFileTransferS3Api';
+
+	displayName = 'Stream File Transfer S3 API';
+
+	documentationUrl = 'https://github.com/MikaelX/n8n-nodes-stream-file#s3-multipart-upload';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Endpoint',
+			name: 'endpoint',
+			type: 'string',
+			default: '',
+			placeholder: 'https://s3.eu-west-1.amazonaws.com',
+			description: 'Service endpoint. Leave empty for AWS S3 in the selected region. Use e.g. http://localhost:9000 for MinIO or https://&lt;account-ID&gt;.r2.cloudflarestorage.com for R2.',
+		},
+		{
+			displayName: 'Region',
+			name: 'region',
+			type: 'string',
+			default: 'us-east-1',
+			description: 'Region used for request signing (R2 uses "auto")',
+		},
+		{
+			displayName: 'Access Key ID',
+			name: 'accessKeyId',
+			type: 'string',
+			default: '',
+			required: true,
+		},
+		{
+			displayName: 'Secret Access Key',
+			name: 'secretAccessKey',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			required: true,
+		},
+		{
+			displayName: 'Session Token',
+			name: 'sessionToken',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			description: 'Only needed for temporary credentials',
+		},
+		{
+			displayName: 'Force Path Style',
+			name: 'forcePathStyle',
+			type: 'boolean',
+			default: false,
+			description: 'Whether to put the bucket name in the URL path instead of the host name. Required for MinIO and most self-hosted services.',
+		},
+	];
+}
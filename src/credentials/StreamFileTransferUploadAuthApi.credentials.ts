@@ -0,0 +1,21 @@
+/**
+ * Upload Authentication Credentials for Stream File Transfer
+ * 
+ * Basic, Bearer, custom header or query parameter authentication for upload (destination) requests.
+ * The node applies the credential itself, so no authenticate block is defined here.
+ * 
+ * @module credentials/StreamFileTransferUploadAuthApi
+ */
+
+import type { ICredentialType, INodeProperties } from 'n8n-workflow';
+import { httpAuthProperties } from './HttpAuthProperties';
+
+export class StreamFileTransferUploadAuthApi implements ICredentialType {
+	name = 'streamFileTransferUploadAuthApi';
+
+	displayName = 'Stream File Transfer Upload Auth API';
+
+	documentationUrl = 'https://github.com/MikaelX/n8n-nodes-stream-file#authentication';
+
+	properties: INodeProperties[] = httpAuthProperties;
+}
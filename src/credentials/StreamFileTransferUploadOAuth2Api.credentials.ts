@@ -0,0 +1,23 @@
+/**
+ * Upload OAuth2 Credentials for Stream File Transfer
+ * 
+ * Generic OAuth2 credential for upload (destination) requests. All OAuth2 settings are inherited
+ * from n8n's oAuth2Api credential; the node sends the access token as a Bearer token and
+ * has n8n refresh and save it after HTTP 401.
+ * 
+ * @module credentials/StreamFileTransferUploadOAuth2Api
+ */
+
+import type { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class StreamFileTransferUploadOAuth2Api implements ICredentialType {
+	name = 'streamFileTransferUploadOAuth2Api';
+
+	extends = ['oAuth2Api'];
+
+	displayName = 'Stream File Transfer Upload OAuth2 API';
+
+	documentationUrl = 'https://github.com/MikaelX/n8n-nodes-stream-file#authentication';
+
+	properties: INodeProperties[] = [];
+}
@@ -9,8 +9,14 @@
  * - Uses Node.js native HTTP/HTTPS for downloads to ensure true streaming
  * - Pipes download stream directly to upload without intermediate buffering
  * - Constant memory usage regardless of file size
+ * - Supports n8n credentials (Basic, Bearer, header, query API key, OAuth2) for both legs
+ * - Supports sftp:// sources and destinations with password or private key login
+ * - Supports ftp:// and ftps:// (explicit TLS) sources and destinations in passive mode
+ * - Supports custom CA certificates, client certificates (mutual TLS) and an insecure mode
  * - Supports bearer token authentication (from URL query string or headers)
  * - Configurable HTTP methods (POST/PUT) and custom headers
+ * - Optional concurrent processing of input items with a concurrency limit
+ * - Download to Binary and Upload from Binary operations that stream between URLs and n8n binary data
  * 
  * @module StreamFileTransfer
  */
@@ -23,6 +29,7 @@ import type {
 } from 'n8n-workflow';
 import { NodeConnectionTypes } from 'n8n-workflow';
 import { operations } from './actions';
+import { runWithConcurrency } from './utils/concurrency';
 
 export class StreamFileTransfer implements INodeType {
 	description: INodeTypeDescription = {
@@ -37,9 +44,133 @@ export class StreamFileTransfer implements INodeType {
 		},
 		inputs: [NodeConnectionTypes.Main],
 		outputs: [NodeConnectionTypes.Main],
+		credentials: [
+			{
+				name: 'streamFileTransferDownloadAuthApi',
+				required: true,
+				displayOptions: {
+					show: {
+						downloadAuthentication: ['httpAuth'],
+					},
+				},
+			},
+			{
+				name: 'streamFileTransferDownloadOAuth2Api',
+				required: true,
+				displayOptions: {
+					show: {
+						downloadAuthentication: ['oAuth2'],
+					},
+				},
+			},
+			{
+				name: 'streamFileTransferUploadAuthApi',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['transferFile', 'uploadFromBinary'],
+						uploadAuthentication: ['httpAuth'],
+					},
+					hide: {
+						uploadDestination: ['s3'],
+					},
+				},
+			},
+			{
+				name: 'streamFileTransferUploadOAuth2Api',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['transferFile', 'uploadFromBinary'],
+						uploadAuthentication: ['oAuth2'],
+					},
+					hide: {
+						uploadDestination: ['s3'],
+					},
+				},
+			},
+			{
+				name: 'streamFileTransferS3Api',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['transferFile'],
+						uploadDestination: ['s3'],
+					},
+				},
+			},
+			{
+				name: 'streamFileTransferSftpApi',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['transferFile'],
+						useSftpCredential: [true],
+					},
+				},
+			},
+			{
+				name: 'streamFileTransferFtpApi',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['transferFile'],
+						useFtpCredential: [true],
+					},
+				},
+			},
+			{
+				name: 'streamFileTransferTlsApi',
+				required: true,
+				displayOptions: {
+					show: {
+						useTlsCredential: [true],
+					},
+				},
+			},
+		],
 		properties: [
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Download to Binary',
+						value: 'downloadToBinary',
+						description: 'Stream a file from a URL into n8n binary data',
+						action: 'Download a file to binary data',
+					},
+					{
+						name: 'Transfer File',
+						value: 'transferFile',
+						description: 'Stream a file from a download URL to an upload destination',
+						action: 'Transfer a file',
+					},
+					{
+						name: 'Upload from Binary',
+						value: 'uploadFromBinary',
+						description: 'Stream n8n binary data to an upload URL',
+						action: 'Upload a file from binary data',
+					},
+				],
+				default: 'transferFile',
+			},
 			// Add operation-specific properties dynamically
 			...operations.transferFile.description,
+			...operations.downloadToBinary.description,
+			...operations.uploadFromBinary.description,
+			{
+				displayName: 'Concurrency',
+				name: 'concurrency',
+				type: 'number',
+				default: 1,
+				description: 'Maximum number of items transferred in parallel. Output order is kept. 1 processes items one after another.',
+				typeOptions: {
+					minValue: 1,
+				},
+			},
 		],
 	};
 
@@ -47,6 +178,7 @@ export class StreamFileTransfer implements INodeType {
 	 * Execute the node operation
 	 * 
 	 * Processes each input item and transfers files from download URL to upload URL.
+	 * Up to Concurrency items run in parallel; results are returned in input order.
 	 * Handles errors according to the node's error handling configuration.
 	 * 
 	 * @param this - n8n execution context
@@ -54,27 +186,30 @@ export class StreamFileTransfer implements INodeType {
 	 */
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+		const operation = this.getNodeParameter('operation', 0, 'transferFile') as string;
+		const concurrency = Number(this.getNodeParameter('concurrency', 0, 1));
+		if (!operations[operation]) {
+			throw new Error(`Unsupported operation: ${operation}`);
+		}
 
-		// Process each input item sequentially
-		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+		const returnData = await runWithConcurrency(items.length, concurrency, async (itemIndex) => {
 			try {
-				// Execute the file transfer operation
-				const result = await operations.transferFile.execute.call(this, itemIndex);
-				returnData.push(result);
+				// Execute the selected operation
+				return await operations[operation].execute.call(this, itemIndex);
 			} catch (error) {
 				// Handle errors based on node configuration
 				if (this.continueOnFail()) {
 					// Continue processing remaining items even if this one fails
-					returnData.push({
+					const code = (error as { code?: unknown }).code;
+					return {
 						json: {
 							error: error instanceof Error ? error.message : String(error),
+							...(typeof code === 'string' ? { code } : {}),
 						},
 						pairedItem: {
 							item: itemIndex,
 						},
-					});
-					continue;
+					};
 				}
 				// Re-throw error to stop execution
 				if (error instanceof Error) {
@@ -82,7 +217,7 @@ export class StreamFileTransfer implements INodeType {
 				}
 				throw new Error(String(error));
 			}
-		}
+		});
 
 		return [returnData];
 	}
@@ -1,4 +1,13 @@
-import { extractBearerToken, parseHeaders } from '../GenericFunctions';
+import {
+	addQueryParameters,
+	captureResponseBody,
+	extractBearerToken,
+	findHeaderKey,
+	getFileNameFromContentDisposition,
+	getFileNameFromUrl,
+	getValueByPath,
+	parseHeaders,
+} from '../GenericFunctions';
 
 describe('GenericFunctions', () => {
 	describe('extractBearerToken', () => {
@@ -119,4 +128,103 @@ describe('GenericFunctions', () => {
 			expect(result).toEqual({});
 		});
 	});
+
+	describe('captureResponseBody', () => {
+		it('should parse JSON in auto mode and keep other text', () => {
+			expect(captureResponseBody('{"id":1}', 'auto', 0)).toEqual({ body: { id: 1 }, truncated: false });
+			expect(captureResponseBody(Buffer.from('OK'), 'auto', 0)).toEqual({ body: 'OK', truncated: false });
+		});
+
+		it('should cut bodies over the limit and return them as text', () => {
+			expect(captureResponseBody('<html>error page</html>', 'auto', 6)).toEqual({ body: '<html>', truncated: true });
+			expect(captureResponseBody('{"id":1}', 'text', 0)).toEqual({ body: '{"id":1}', truncated: false });
+		});
+
+		it('should keep objects unless text is requested', () => {
+			const written = { path: '/data/file.bin', bytesWritten: 4 };
+
+			expect(captureResponseBody(written, 'json', 0).body).toBe(written);
+			expect(captureResponseBody(written, 'text', 0).body).toBe('{"path":"/data/file.bin","bytesWritten":4}');
+			expect(captureResponseBody(written, 'ignore', 0).body).toBeUndefined();
+		});
+
+		it('should fail in JSON mode for invalid or truncated JSON', () => {
+			expect(captureResponseBody('', 'json', 0).body).toEqual({});
+			expect(() => captureResponseBody('<html>', 'json', 0)).toThrow(
+				expect.objectContaining({ code: 'INVALID_RESPONSE_JSON' }),
+			);
+			expect(() => captureResponseBody('{"id":1}', 'json', 4)).toThrow('larger than the Max Response Body Size of 4 bytes');
+		});
+	});
+
+	describe('getValueByPath', () => {
+		it('should read nested object and array values', () => {
+			const data = { data: { files: [{ sha256: 'abc' }] } };
+
+			expect(getValueByPath(data, 'data.files.0.sha256')).toBe('abc');
+		});
+
+		it('should return undefined for missing segments', () => {
+			expect(getValueByPath({ a: 1 }, 'a.b.c')).toBeUndefined();
+			expect(getValueByPath('text', 'a')).toBeUndefined();
+		});
+	});
+
+	describe('findHeaderKey', () => {
+		it('should find headers regardless of case', () => {
+			expect(findHeaderKey({ 'content-type': 'text/plain' }, 'Content-Type')).toBe('content-type');
+			expect(findHeaderKey({ Accept: '*/*' }, 'Content-Type')).toBeUndefined();
+		});
+	});
+
+	describe('addQueryParameters', () => {
+		it('should append encoded parameters to the existing query string', () => {
+			expect(
+				addQueryParameters('https://api.example.com/export?format=csv', [
+					{ name: 'from', value: '2024-01-01' },
+					{ name: 'q', value: 'a&b c' },
+					{ name: 'format', value: 'json' },
+				]),
+			).toBe('https://api.example.com/export?format=csv&from=2024-01-01&q=a%26b+c&format=json');
+		});
+
+		it('should return the URL unchanged without named parameters or for invalid URLs', () => {
+			expect(addQueryParameters('https://api.example.com/export', [{ name: ' ', value: 'x' }])).toBe(
+				'https://api.example.com/export',
+			);
+			expect(addQueryParameters('not-a-url', [{ name: 'a', value: 'b' }])).toBe('not-a-url');
+		});
+	});
+
+	describe('getFileNameFromUrl', () => {
+		it('should decode the last path segment', () => {
+			expect(getFileNameFromUrl('https://example.com/files/report%202024.pdf?sig=abc')).toBe('report 2024.pdf');
+		});
+
+		it('should fall back when there is no file name', () => {
+			expect(getFileNameFromUrl('https://example.com/')).toBe('file');
+			expect(getFileNameFromUrl('not-a-url', 'download')).toBe('download');
+		});
+	});
+
+	describe('getFileNameFromContentDisposition', () => {
+		it('should prefer the RFC 5987 filename* parameter', () => {
+			expect(
+				getFileNameFromContentDisposition('attachment; filename="euro.pdf"; filename*=UTF-8\'\'%E2%82%AC%20rates.pdf'),
+			).toBe('€ rates.pdf');
+			expect(getFileNameFromContentDisposition("attachment; filename*=ISO-8859-1'de'm%FCller.txt")).toBe('müller.txt');
+		});
+
+		it('should read quoted and plain filename parameters', () => {
+			expect(getFileNameFromContentDisposition('attachment; filename="my \\"report\\".csv"')).toBe('my "report".csv');
+			expect(getFileNameFromContentDisposition('inline; filename=data.json')).toBe('data.json');
+		});
+
+		it('should strip directories and ignore missing names', () => {
+			expect(getFileNameFromContentDisposition('attachment; filename="../../etc/passwd"')).toBe('passwd');
+			expect(getFileNameFromContentDisposition('attachment; filename=".."')).toBeUndefined();
+			expect(getFileNameFromContentDisposition('attachment')).toBeUndefined();
+			expect(getFileNameFromContentDisposition(undefined)).toBeUndefined();
+		});
+	});
 });
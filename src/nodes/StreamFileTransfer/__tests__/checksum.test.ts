@@ -0,0 +1,109 @@
+import {
+	assertChecksumMatch,
+	crc32c,
+	getSourceMd5,
+	getSourceSha256,
+	HashingStream,
+	normalizeChecksum,
+} from '../utils/checksum';
+import { Readable } from 'stream';
+
+describe('utils/checksum', () => {
+	async function hash(data: string, algorithms: ConstructorParameters<typeof HashingStream>[0]) {
+		const stream = new HashingStream(algorithms);
+		const chunks: Buffer[] = [];
+		await new Promise<void>((resolve, reject) => {
+			Readable.from([Buffer.from(data.slice(0, 3)), Buffer.from(data.slice(3))])
+				.pipe(stream)
+				.on('data', (chunk: Buffer) => chunks.push(chunk))
+				.on('end', resolve)
+				.on('error', reject);
+		});
+		return { digests: stream.digests, output: Buffer.concat(chunks).toString() };
+	}
+
+	describe('crc32c', () => {
+		it('should match the standard check value', () => {
+			expect(crc32c(0, Buffer.from('123456789')).toString(16)).toBe('e3069283');
+		});
+
+		it('should support incremental updates', () => {
+			const crc = crc32c(crc32c(0, Buffer.from('12345')), Buffer.from('6789'));
+			expect(crc).toBe(0xe3069283);
+		});
+	});
+
+	describe('HashingStream', () => {
+		it('should pass data through unchanged and compute all digests', async () => {
+			const { digests, output } = await hash('test file content', ['md5', 'sha1', 'sha256', 'crc32c']);
+
+			expect(output).toBe('test file content');
+			expect(digests).toEqual({
+				md5: 'c785060c866796cc2a1708c997154c8e',
+				sha1: '9032bbc224ed8b39183cb93b9a7447727ce67f9d',
+				sha256: '60f5237ed4049f0382661ef009d2bc42e48c3ceb3edb6600f7024e7ab3b838f3',
+				crc32c: expect.stringMatching(/^[0-9a-f]{8}$/),
+			});
+		});
+
+		it('should not report digests before the stream ends', () => {
+			expect(new HashingStream(['md5']).digests).toBeUndefined();
+		});
+	});
+
+	describe('normalizeChecksum', () => {
+		it('should accept hex, base64 and quoted values', () => {
+			expect(normalizeChecksum('ABCDEF01')).toBe('abcdef01');
+			expect(normalizeChecksum('"abcdef01"')).toBe('abcdef01');
+			expect(normalizeChecksum('q83vAQ==')).toBe('abcdef01');
+		});
+	});
+
+	describe('getSourceMd5', () => {
+		it('should prefer Content-MD5', () => {
+			expect(getSourceMd5({ 'content-md5': 'q83vAQ==', etag: '"00000000000000000000000000000000"' })).toBe(
+				'abcdef01',
+			);
+		});
+
+		it('should use a plain MD5 ETag', () => {
+			expect(getSourceMd5({ etag: '"0CC175B9C0F1B6A831C399E269772661"' })).toBe(
+				'0cc175b9c0f1b6a831c399e269772661',
+			);
+		});
+
+		it('should ignore multipart ETags', () => {
+			expect(getSourceMd5({ etag: '"0cc175b9c0f1b6a831c399e269772661-3"' })).toBeNull();
+		});
+	});
+
+	describe('getSourceSha256', () => {
+		it('should read RFC 9530 digest fields', () => {
+			const digest = 'sha-256=:Om6weQ85rIfJTzhWst0sXREOaBFgImGpqSPTuyOtyLc=:';
+			const hex = '3a6eb0790f39ac87c94f3856b2dd2c5d110e6811602261a9a923d3bb23adc8b7';
+			expect(getSourceSha256({ 'repr-digest': digest })).toBe(hex);
+			expect(getSourceSha256({ digest: 'MD5=q83vAQ==, SHA-256=Om6weQ85rIfJTzhWst0sXREOaBFgImGpqSPTuyOtyLc=' })).toBe(hex);
+		});
+
+		it('should read S3 and plain hex checksum headers', () => {
+			expect(getSourceSha256({ 'x-amz-checksum-sha256': 'Om6weQ85rIfJTzhWst0sXREOaBFgImGpqSPTuyOtyLc=' })).toMatch(/^3a6eb079/);
+			expect(getSourceSha256({ 'x-checksum-sha256': '3A6EB0790F39AC87C94F3856B2DD2C5D110E6811602261A9A923D3BB23ADC8B7' })).toMatch(
+				/^3a6eb079/,
+			);
+		});
+
+		it('should ignore multipart checksums and missing headers', () => {
+			expect(getSourceSha256({ 'x-amz-checksum-sha256': 'Om6weQ85rIfJTzhWst0sXREOaBFgImGpqSPTuyOtyLc=-3' })).toBeNull();
+			expect(getSourceSha256({})).toBeNull();
+		});
+	});
+
+	describe('assertChecksumMatch', () => {
+		it('should throw a CHECKSUM_MISMATCH error on mismatch', () => {
+			expect(() => assertChecksumMatch('md5', 'aa', 'bb', 'the expected checksum')).toThrow(
+				expect.objectContaining({ code: 'CHECKSUM_MISMATCH' }),
+			);
+			expect(() => assertChecksumMatch('md5', 'aa', 'AA', 'the expected checksum')).not.toThrow();
+		});
+	});
+});
@@ -0,0 +1,55 @@
+import { runWithConcurrency } from '../utils/concurrency';
+
+describe('utils/concurrency', () => {
+	const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+	it('should keep the result order when tasks finish out of order', async () => {
+		const results = await runWithConcurrency(4, 4, async (index) => {
+			await delay((4 - index) * 5);
+			return index;
+		});
+
+		expect(results).toEqual([0, 1, 2, 3]);
+	});
+
+	it('should not run more tasks than the limit at the same time', async () => {
+		let running = 0;
+		let maxRunning = 0;
+
+		await runWithConcurrency(10, 3, async () => {
+			running++;
+			maxRunning = Math.max(maxRunning, running);
+			await delay(2);
+			running--;
+		});
+
+		expect(maxRunning).toBe(3);
+	});
+
+	it('should stop starting tasks after a failure and throw the first failed task error', async () => {
+		const started: number[] = [];
+
+		await expect(
+			runWithConcurrency(10, 2, async (index) => {
+				started.push(index);
+				await delay(index === 0 ? 10 : 1);
+				throw new Error(`task ${index} failed`);
+			}),
+		).rejects.toThrow('task 0 failed');
+		expect(started).toEqual([0, 1]);
+	});
+
+	it('should treat invalid limits as sequential processing', async () => {
+		let running = 0;
+		let maxRunning = 0;
+
+		await runWithConcurrency(3, NaN, async () => {
+			running++;
+			maxRunning = Math.max(maxRunning, running);
+			await delay(1);
+			running--;
+		});
+
+		expect(maxRunning).toBe(1);
+	});
+});
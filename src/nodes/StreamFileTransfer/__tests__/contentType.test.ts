@@ -0,0 +1,42 @@
+import { sniffContentType } from '../utils/contentType';
+
+describe('utils/contentType', () => {
+	describe('sniffContentType', () => {
+		it('should recognize binary formats by their signature', () => {
+			expect(sniffContentType(Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex'))).toBe('image/png');
+			expect(sniffContentType(Buffer.from('ffd8ffe000104a464946', 'hex'))).toBe('image/jpeg');
+			expect(sniffContentType(Buffer.from('%PDF-1.7\n%âãÏÓ', 'latin1'))).toBe('application/pdf');
+			expect(sniffContentType(Buffer.from('504b0304140000000800', 'hex'))).toBe('application/zip');
+			expect(sniffContentType(Buffer.from('1f8b0800000000000003', 'hex'))).toBe('application/gzip');
+			expect(sniffContentType(Buffer.from('RIFF\x24\x00\x00\x00WEBPVP8 ', 'latin1'))).toBe('image/webp');
+			expect(sniffContentType(Buffer.from('RIFF\x24\x00\x00\x00WAVEfmt ', 'latin1'))).toBe('audio/wav');
+		});
+
+		it('should tell MP4 brands apart', () => {
+			expect(sniffContentType(Buffer.from('\x00\x00\x00\x20ftypisom\x00\x00\x02\x00', 'latin1'))).toBe('video/mp4');
+			expect(sniffContentType(Buffer.from('\x00\x00\x00\x14ftypqt  \x00\x00\x00\x00', 'latin1'))).toBe('video/quicktime');
+		});
+
+		it('should find signatures at an offset', () => {
+			const tar = Buffer.alloc(512);
+			tar.write('report.csv', 0);
+			tar.write('ustar', 257);
+
+			expect(sniffContentType(tar)).toBe('application/x-tar');
+		});
+
+		it('should detect markup and plain text', () => {
+			expect(sniffContentType(Buffer.from('\uFEFF<?xml version="1.0"?><feed/>'))).toBe('application/xml');
+			expect(sniffContentType(Buffer.from('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBe(
+				'image/svg+xml',
+			);
+			expect(sniffContentType(Buffer.from('  <!DOCTYPE html>\n<html>'))).toBe('text/html');
+			expect(sniffContentType(Buffer.from('id,name\n1,BMW\n'))).toBe('text/plain');
+		});
+
+		it('should return undefined for empty and unknown binary data', () => {
+			expect(sniffContentType(Buffer.alloc(0))).toBeUndefined();
+			expect(sniffContentType(Buffer.from('0001020304050607', 'hex'))).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,166 @@
+import {
+	assertFileAbsent,
+	fileExists,
+	isFileUrl,
+	openFileDownload,
+	resolveLocalPath,
+	writeFileAtomically,
+} from '../transport/file';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pathToFileURL } from 'url';
+
+describe('transport/file', () => {
+	let root: string;
+	let base: string;
+
+	beforeEach(async () => {
+		root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'stream-file-')));
+		base = path.join(root, 'base');
+		await fs.mkdir(base);
+	});
+
+	afterEach(async () => {
+		await fs.rm(root, { recursive: true, force: true });
+	});
+
+	const fileUrl = (filePath: string) => pathToFileURL(filePath).href;
+
+	describe('isFileUrl', () => {
+		it('should detect file URLs', () => {
+			expect(isFileUrl('file:///data/a.zip')).toBe(true);
+			expect(isFileUrl('https://example.com/a.zip')).toBe(false);
+		});
+	});
+
+	describe('resolveLocalPath', () => {
+		it('should accept paths inside the base directory, including files that do not exist yet', async () => {
+			await expect(resolveLocalPath(fileUrl(path.join(base, 'new/a.zip')), base)).resolves.toBe(
+				path.join(base, 'new/a.zip'),
+			);
+		});
+
+		it('should reject paths outside the base directory', async () => {
+			await expect(resolveLocalPath(fileUrl(path.join(root, 'other.zip')), base)).rejects.toThrow(
+				'is outside the allowed base directory',
+			);
+			await expect(resolveLocalPath(`${fileUrl(base)}/../other.zip`, base)).rejects.toThrow(
+				'is outside the allowed base directory',
+			);
+		});
+
+		it('should accept names inside the base directory that start with two dots', async () => {
+			await expect(resolveLocalPath(fileUrl(path.join(base, '..data/a.zip')), base)).resolves.toBe(
+				path.join(base, '..data/a.zip'),
+			);
+		});
+
+		it('should reject symbolic links that point outside the base directory', async () => {
+			await fs.symlink(root, path.join(base, 'escape'));
+
+			await expect(resolveLocalPath(fileUrl(path.join(base, 'escape/other.zip')), base)).rejects.toThrow(
+				'is outside the allowed base directory',
+			);
+		});
+
+		it('should require a base directory', async () => {
+			await expect(resolveLocalPath(fileUrl(path.join(base, 'a.zip')), ' ')).rejects.toThrow(
+				'file:// URLs require the Allowed Base Directory option',
+			);
+		});
+	});
+
+	describe('openFileDownload', () => {
+		it('should stream the file with its size as Content-Length', async () => {
+			const filePath = path.join(base, 'a.txt');
+			await fs.writeFile(filePath, 'hello');
+
+			const download = await openFileDownload(filePath);
+			const chunks: Buffer[] = [];
+			for await (const chunk of download.stream) {
+				chunks.push(chunk as Buffer);
+			}
+
+			expect(download.statusCode).toBe(200);
+			expect(download.headers['content-length']).toBe('5');
+			expect(download.finalUrl).toBe(fileUrl(filePath));
+			expect(Buffer.concat(chunks).toString()).toBe('hello');
+		});
+
+		it('should fail for missing files', async () => {
+			await expect(openFileDownload(path.join(base, 'missing.txt'))).rejects.toThrow('does not exist');
+		});
+	});
+
+	describe('assertFileAbsent', () => {
+		it('should fail with EEXIST for existing files only', async () => {
+			const filePath = path.join(base, 'a.txt');
+
+			await expect(assertFileAbsent(filePath)).resolves.toBeUndefined();
+			await fs.writeFile(filePath, 'data');
+			await expect(assertFileAbsent(filePath)).rejects.toMatchObject({
+				code: 'EEXIST',
+				message: `File ${filePath} already exists`,
+			});
+		});
+	});
+
+	describe('writeFileAtomically', () => {
+		it('should write through a temporary file and create missing directories', async () => {
+			const filePath = path.join(base, 'out/b.txt');
+
+			const result = await writeFileAtomically(Readable.from([Buffer.from('data')]), filePath, false);
+
+			expect(result).toEqual({ path: filePath, bytesWritten: 4 });
+			await expect(fs.readFile(filePath, 'utf8')).resolves.toBe('data');
+			await expect(fs.readdir(path.dirname(filePath))).resolves.toEqual(['b.txt']);
+		});
+
+		it('should fail for existing files unless overwriting', async () => {
+			const filePath = path.join(base, 'b.txt');
+			await fs.writeFile(filePath, 'old');
+
+			await expect(
+				writeFileAtomically(Readable.from([Buffer.from('new')]), filePath, false),
+			).rejects.toThrow('already exists');
+			await writeFileAtomically(Readable.from([Buffer.from('new')]), filePath, true);
+
+			await expect(fs.readFile(filePath, 'utf8')).resolves.toBe('new');
+			await expect(fs.readdir(base)).resolves.toEqual(['b.txt']);
+		});
+
+		it('should copy exclusively where the filesystem has no hard links', async () => {
+			const filePath = path.join(base, 'd.txt');
+			const unsupported = Object.assign(new Error('operation not permitted'), { code: 'EPERM' });
+			const link = jest.spyOn(fs, 'link').mockRejectedValue(unsupported);
+
+			try {
+				await writeFileAtomically(Readable.from([Buffer.from('copied')]), filePath, false);
+				await expect(
+					writeFileAtomically(Readable.from([Buffer.from('again')]), filePath, false),
+				).rejects.toMatchObject({ code: 'EEXIST' });
+				expect(link).toHaveBeenCalledTimes(2);
+			} finally {
+				link.mockRestore();
+			}
+
+			await expect(fs.readFile(filePath, 'utf8')).resolves.toBe('copied');
+			await expect(fs.readdir(base)).resolves.toEqual(['d.txt']);
+		});
+
+		it('should remove the temporary file when the stream fails', async () => {
+			const filePath = path.join(base, 'c.txt');
+			const body = new Readable({
+				read() {
+					this.destroy(new Error('download failed'));
+				},
+			});
+
+			await expect(writeFileAtomically(body, filePath, true)).rejects.toThrow('download failed');
+			await expect(fileExists(filePath)).resolves.toBe(false);
+			await expect(fs.readdir(base)).resolves.toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,210 @@
+import {
+	applyRequestHostPolicy,
+	assertHostAllowed,
+	assertUrlAllowed,
+	createGuardedLookup,
+	getHostPolicy,
+	isPrivateAddress,
+	resolveAllowedHost,
+} from '../utils/hostPolicy';
+import type { IRequestOptions } from 'n8n-workflow';
+import * as dns from 'dns';
+
+describe('utils/hostPolicy', () => {
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	describe('isPrivateAddress', () => {
+		it('should detect loopback, link-local and private addresses', () => {
+			for (const address of ['127.0.0.1', '10.1.2.3', '172.31.255.255', '192.168.0.1', '169.254.169.254', '0.0.0.0']) {
+				expect(isPrivateAddress(address)).toBe(true);
+			}
+			for (const address of ['::1', '::', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1']) {
+				expect(isPrivateAddress(address)).toBe(true);
+			}
+		});
+
+		it('should not flag public addresses', () => {
+			for (const address of ['8.8.8.8', '172.32.0.1', '100.64.0.1', '2001:db8::1', '::ffff:8.8.8.8']) {
+				expect(isPrivateAddress(address)).toBe(false);
+			}
+		});
+	});
+
+	describe('getHostPolicy', () => {
+		it('should block private networks by default', () => {
+			const policy = getHostPolicy({}, 'download');
+
+			expect(policy.blockPrivateNetworks).toBe(true);
+			expect(policy.hasAllowlist).toBe(false);
+		});
+
+		it('should read the allowlist of the given side only', () => {
+			const policy = getHostPolicy(
+				{ uploadAllowedHosts: 'Files.Example.com, *.cdn.example.com, 10.20.0.0/16, [fd00::1]', downloadAllowedHosts: 'other.example.com' },
+				'upload',
+			);
+
+			expect(policy.allowedHostnames).toEqual(['files.example.com', '.cdn.example.com']);
+			expect(policy.allowedNetworks.check('10.20.3.4')).toBe(true);
+			expect(policy.allowedNetworks.check('fd00::1', 'ipv6')).toBe(true);
+		});
+
+		it('should reject invalid CIDR ranges', () => {
+			expect(() => getHostPolicy({ downloadAllowedHosts: '10.0.0.0/33' }, 'download')).toThrow(
+				'Invalid CIDR range "10.0.0.0/33" in the download allowed hosts',
+			);
+			expect(() => getHostPolicy({ downloadAllowedHosts: 'example.com/8' }, 'download')).toThrow('Invalid CIDR range');
+		});
+	});
+
+	describe('assertHostAllowed', () => {
+		it('should refuse private IP addresses without resolving them', async () => {
+			const lookup = jest.spyOn(dns.promises, 'lookup');
+
+			await expect(assertHostAllowed(getHostPolicy({}, 'upload'), '[::1]')).rejects.toMatchObject({
+				code: 'HOST_NOT_ALLOWED',
+				message: 'Connection to ::1 is blocked: the address is in a private network',
+			});
+			expect(lookup).not.toHaveBeenCalled();
+		});
+
+		it('should refuse host names resolving to a private address', async () => {
+			jest.spyOn(dns.promises, 'lookup').mockResolvedValue([
+				{ address: '93.184.215.14', family: 4 },
+				{ address: '10.0.0.5', family: 4 },
+			] as any);
+
+			await expect(assertHostAllowed(getHostPolicy({}, 'upload'), 'internal.example.com')).rejects.toThrow(
+				'Connection to internal.example.com (10.0.0.5) is blocked: the address is in a private network',
+			);
+		});
+
+		it('should allow listed hosts and networks, also in private networks', async () => {
+			jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '10.20.0.7', family: 4 }] as any);
+			const policy = getHostPolicy({ uploadAllowedHosts: '*.corp.example.com,10.20.0.0/16' }, 'upload');
+
+			await expect(assertHostAllowed(policy, 'minio.corp.example.com')).resolves.toBeUndefined();
+			await expect(assertHostAllowed(policy, 'storage.example.com')).resolves.toBeUndefined();
+			await expect(assertHostAllowed(policy, '10.30.0.1')).rejects.toThrow('the host is not in the allowed hosts');
+		});
+
+		it('should allow everything when blocking is disabled and nothing is listed', async () => {
+			const lookup = jest.spyOn(dns.promises, 'lookup');
+
+			await expect(
+				assertHostAllowed(getHostPolicy({ blockPrivateNetworks: false }, 'upload'), 'localhost'),
+			).resolves.toBeUndefined();
+			expect(lookup).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('resolveAllowedHost', () => {
+		it('should return the checked address, so a second lookup cannot change the target', async () => {
+			jest
+				.spyOn(dns.promises, 'lookup')
+				.mockResolvedValueOnce([{ address: '93.184.215.14', family: 4 }] as any)
+				.mockResolvedValueOnce([{ address: '127.0.0.1', family: 4 }] as any);
+
+			await expect(resolveAllowedHost(getHostPolicy({}, 'upload'), 'rebind.example.com')).resolves.toBe(
+				'93.184.215.14',
+			);
+		});
+
+		it('should keep the host name when no check is needed', async () => {
+			const lookup = jest.spyOn(dns.promises, 'lookup');
+			const policy = getHostPolicy({ uploadAllowedHosts: 'sftp.corp.example.com' }, 'upload');
+
+			await expect(resolveAllowedHost(policy, 'sftp.corp.example.com')).resolves.toBe('sftp.corp.example.com');
+			await expect(resolveAllowedHost(getHostPolicy({}, 'upload'), '[2606:2800::1]')).resolves.toBe('2606:2800::1');
+			expect(lookup).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('applyRequestHostPolicy', () => {
+		it('should add the guarded lookup to HTTPS requests and stop following redirects', async () => {
+			const requestOptions: IRequestOptions = { url: 'https://upload.example.com/', agentOptions: { cert: 'CERT' } };
+
+			await applyRequestHostPolicy(requestOptions, getHostPolicy({}, 'upload'));
+
+			expect(requestOptions).toMatchObject({
+				url: 'https://upload.example.com/',
+				agentOptions: { cert: 'CERT', lookup: expect.any(Function) },
+				followRedirect: false,
+				followAllRedirects: false,
+			});
+		});
+
+		it('should send plain HTTP requests to the checked address', async () => {
+			jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '2001:db8::5', family: 6 }] as any);
+			const requestOptions: IRequestOptions = { url: 'http://upload.example.com/files?a=1', headers: { 'X-Id': '1' } };
+
+			await applyRequestHostPolicy(requestOptions, getHostPolicy({}, 'upload'));
+
+			expect(requestOptions).toMatchObject({
+				url: 'http://[2001:db8::5]/files?a=1',
+				headers: { 'X-Id': '1', Host: 'upload.example.com' },
+				followRedirect: false,
+			});
+			expect(requestOptions.agentOptions).toBeUndefined();
+		});
+
+		it('should refuse plain HTTP requests to names resolving to private addresses', async () => {
+			jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '127.0.0.1', family: 4 }] as any);
+
+			await expect(
+				applyRequestHostPolicy({ url: 'http://upload.example.com/' }, getHostPolicy({}, 'upload')),
+			).rejects.toMatchObject({ code: 'HOST_NOT_ALLOWED' });
+		});
+
+		it('should check proxied requests before they are sent', async () => {
+			const lookup = jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '10.0.0.8', family: 4 }] as any);
+			const proxied: IRequestOptions = { url: 'https://upload.example.com/', proxy: 'http://proxy.local:3128' };
+
+			await expect(applyRequestHostPolicy(proxied, getHostPolicy({}, 'upload'))).rejects.toMatchObject({
+				code: 'HOST_NOT_ALLOWED',
+			});
+			expect(lookup).toHaveBeenCalledWith('upload.example.com', { all: true });
+			expect(proxied.agentOptions).toBeUndefined();
+		});
+
+		it('should leave unrestricted requests alone', async () => {
+			const unrestricted: IRequestOptions = { url: 'http://upload.example.com/' };
+
+			await applyRequestHostPolicy(unrestricted, getHostPolicy({ blockPrivateNetworks: false }, 'upload'));
+
+			expect(unrestricted).toEqual({ url: 'http://upload.example.com/' });
+		});
+	});
+
+	describe('assertUrlAllowed', () => {
+		it('should check network URLs and ignore local files', async () => {
+			const policy = getHostPolicy({}, 'download');
+
+			await expect(assertUrlAllowed(policy, 'sftp://192.168.1.10/in/file.csv')).rejects.toMatchObject({
+				code: 'HOST_NOT_ALLOWED',
+			});
+			await expect(assertUrlAllowed(policy, 'http://2130706433/admin')).rejects.toThrow('127.0.0.1');
+			await expect(assertUrlAllowed(policy, 'file:///data/file.csv')).resolves.toBeUndefined();
+		});
+	});
+
+	describe('createGuardedLookup', () => {
+		function lookup(hostname: string, options: dns.LookupOptions): Promise<unknown[]> {
+			const guarded = createGuardedLookup(getHostPolicy({}, 'download'));
+			return new Promise((resolve) => guarded(hostname, options, (...args) => resolve(args)));
+		}
+
+		it('should pass allowed addresses on in the requested form', async () => {
+			expect(await lookup('93.184.215.14', {})).toEqual([null, '93.184.215.14', 4]);
+			expect(await lookup('93.184.215.14', { all: true })).toEqual([null, [{ address: '93.184.215.14', family: 4 }]]);
+		});
+
+		it('should fail the connection for a host name resolving to a private address', async () => {
+			const [error] = await lookup('localhost', { all: true });
+
+			expect(error).toMatchObject({ code: 'HOST_NOT_ALLOWED' });
+		});
+	});
+});
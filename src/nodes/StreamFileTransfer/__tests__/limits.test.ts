@@ -0,0 +1,75 @@
+import { assertContentTypeAllowed, assertSizeAllowed, getFileLimits, SizeLimitStream } from '../utils/limits';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+describe('utils/limits', () => {
+	describe('getFileLimits', () => {
+		it('should convert megabytes and split the content type lists', () => {
+			expect(getFileLimits({ maxFileSize: 1.5, allowedContentTypes: ' Image/*, application/pdf ,' })).toEqual({
+				maxFileSize: 1572864,
+				allowedContentTypes: ['image/*', 'application/pdf'],
+				blockedContentTypes: [],
+			});
+			expect(getFileLimits({}).maxFileSize).toBe(0);
+		});
+	});
+
+	describe('assertContentTypeAllowed', () => {
+		const limits = getFileLimits({ allowedContentTypes: 'image/*,application/pdf', blockedContentTypes: 'image/svg+xml' });
+
+		it('should accept allowed types and ignore parameters', () => {
+			expect(() => assertContentTypeAllowed(limits, 'image/PNG')).not.toThrow();
+			expect(() => assertContentTypeAllowed(limits, 'application/pdf; name="a.pdf"')).not.toThrow();
+		});
+
+		it('should refuse blocked and not allowed types with CONTENT_TYPE_NOT_ALLOWED', () => {
+			expect(() => assertContentTypeAllowed(limits, 'image/svg+xml')).toThrow(
+				expect.objectContaining({ code: 'CONTENT_TYPE_NOT_ALLOWED', message: 'Content type image/svg+xml is blocked' }),
+			);
+			expect(() => assertContentTypeAllowed(limits, undefined)).toThrow(
+				'Content type application/octet-stream is not in the allowed content types',
+			);
+		});
+
+		it('should accept every type without lists', () => {
+			expect(() => assertContentTypeAllowed(getFileLimits({}), 'text/html')).not.toThrow();
+		});
+	});
+
+	describe('assertSizeAllowed', () => {
+		it('should refuse an announced size over the limit', () => {
+			const limits = getFileLimits({ maxFileSize: 1 });
+
+			expect(() => assertSizeAllowed(limits, 1048576)).not.toThrow();
+			expect(() => assertSizeAllowed(limits, undefined)).not.toThrow();
+			expect(() => assertSizeAllowed(limits, 1048577)).toThrow(expect.objectContaining({ code: 'FILE_TOO_LARGE' }));
+			expect(() => assertSizeAllowed(getFileLimits({}), Number.MAX_SAFE_INTEGER)).not.toThrow();
+		});
+	});
+
+	describe('SizeLimitStream', () => {
+		it('should pass files up to the limit through unchanged', async () => {
+			const stream = new SizeLimitStream({ maxFileSize: 6, allowedContentTypes: [], blockedContentTypes: [] });
+			const chunks: Buffer[] = [];
+			stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+			await pipeline(Readable.from([Buffer.from('abc'), Buffer.from('def')]), stream);
+
+			expect(Buffer.concat(chunks).toString()).toBe('abcdef');
+			expect(stream.limitError).toBeUndefined();
+		});
+
+		it('should fail without forwarding the chunk that crosses the limit', async () => {
+			const stream = new SizeLimitStream({ maxFileSize: 5, allowedContentTypes: [], blockedContentTypes: [] });
+			const chunks: Buffer[] = [];
+			stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+			await expect(pipeline(Readable.from([Buffer.from('abc'), Buffer.from('def')]), stream)).rejects.toMatchObject({
+				code: 'FILE_TOO_LARGE',
+				message: 'File exceeds the Max File Size of 5 bytes (stopped after 3 bytes)',
+			});
+			expect(Buffer.concat(chunks).toString()).toBe('abc');
+			expect(stream.limitError).toBeDefined();
+		});
+	});
+});
@@ -0,0 +1,114 @@
+import { createMultipartBody } from '../utils/multipart';
+import { Readable } from 'stream';
+
+describe('utils/multipart', () => {
+	async function readAll(stream: Readable): Promise<string> {
+		const chunks: Buffer[] = [];
+		for await (const chunk of stream) {
+			chunks.push(chunk as Buffer);
+		}
+		return Buffer.concat(chunks).toString('utf8');
+	}
+
+	it('should wrap the file stream in a multipart body with extra fields', async () => {
+		const body = createMultipartBody(
+			Readable.from([Buffer.from('hello '), Buffer.from('world')]),
+			{
+				fieldName: 'upload',
+				fileName: 'greeting.txt',
+				contentType: 'text/plain',
+				fields: [{ name: 'folder', value: 'inbox' }],
+				boundary: 'BOUNDARY',
+			},
+			11,
+		);
+
+		const content = await readAll(body.stream);
+
+		expect(body.contentType).toBe('multipart/form-data; boundary=BOUNDARY');
+		expect(content).toBe(
+			'--BOUNDARY\r\n' +
+				'Content-Disposition: form-data; name="folder"\r\n\r\n' +
+				'inbox\r\n' +
+				'--BOUNDARY\r\n' +
+				'Content-Disposition: form-data; name="upload"; filename="greeting.txt"\r\n' +
+				'Content-Type: text/plain\r\n\r\n' +
+				'hello world\r\n' +
+				'--BOUNDARY--\r\n',
+		);
+		expect(body.contentLength).toBe(Buffer.byteLength(content));
+	});
+
+	it('should omit Content-Length when the file size is unknown', () => {
+		const body = createMultipartBody(Readable.from([]), {
+			fieldName: 'file',
+			fileName: 'a.bin',
+			contentType: 'application/octet-stream',
+			fields: [],
+		});
+
+		expect(body.contentLength).toBeUndefined();
+		expect(body.contentType).toMatch(/^multipart\/form-data; boundary=-+n8nStreamFileTransfer[0-9a-f]+$/);
+		body.stream.destroy();
+	});
+
+	it('should escape quotes and add filename* for non-ASCII names', async () => {
+		const body = createMultipartBody(Readable.from([]), {
+			fieldName: 'file',
+			fileName: 'rapport "final" é.pdf',
+			contentType: 'application/pdf',
+			fields: [],
+			boundary: 'B',
+		});
+
+		const content = await readAll(body.stream);
+
+		expect(content).toContain(
+			`filename="rapport %22final%22 é.pdf"; filename*=UTF-8''rapport%20%22final%22%20%C3%A9.pdf`,
+		);
+	});
+
+	it('should add filename* for names with control characters', async () => {
+		const body = createMultipartBody(Readable.from([]), {
+			fieldName: 'file',
+			fileName: 'a\tb.txt',
+			contentType: 'text/plain',
+			fields: [],
+			boundary: 'B',
+		});
+
+		const content = await readAll(body.stream);
+
+		expect(content).toContain(`filename="a\tb.txt"; filename*=UTF-8''a%09b.txt`);
+	});
+
+	it('should not add filename* for printable ASCII names', async () => {
+		const body = createMultipartBody(Readable.from([]), {
+			fieldName: 'file',
+			fileName: 'report~1.pdf',
+			contentType: 'application/pdf',
+			fields: [],
+			boundary: 'B',
+		});
+
+		const content = await readAll(body.stream);
+
+		expect(content).toContain('filename="report~1.pdf"\r\n');
+	});
+
+	it('should propagate errors from the file stream', async () => {
+		const file = new Readable({
+			read() {
+				this.destroy(new Error('download failed'));
+			},
+		});
+		const body = createMultipartBody(file, {
+			fieldName: 'file',
+			fileName: 'a.bin',
+			contentType: 'application/octet-stream',
+			fields: [],
+		});
+
+		await expect(readAll(body.stream)).rejects.toThrow('download failed');
+	});
+});
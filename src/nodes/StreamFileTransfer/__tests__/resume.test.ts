@@ -0,0 +1,131 @@
+import {
+	ResumableDownloadStream,
+	parseContentRangeStart,
+	supportsRangeRequests,
+} from '../transport/resume';
+import type { DownloadResponse } from '../transport/download';
+import { Readable } from 'stream';
+
+describe('transport/resume', () => {
+	// Response body that delivers the given chunks and then fails like a reset socket
+	function createFailingBody(chunks: string[]): Readable {
+		let index = 0;
+		return new Readable({
+			read() {
+				if (index < chunks.length) {
+					this.push(Buffer.from(chunks[index++]));
+				} else {
+					this.destroy(new Error('socket hang up'));
+				}
+			},
+		});
+	}
+
+	function createResponse(
+		body: Readable,
+		statusCode: number,
+		headers: Record<string, string>,
+	): DownloadResponse {
+		return {
+			stream: body as any,
+			statusCode,
+			headers,
+			finalUrl: 'https://download.example.com/file.bin',
+			redirects: [],
+			requestHeaders: { Accept: '*/*' },
+		};
+	}
+
+	async function readAll(stream: Readable): Promise<string> {
+		let data = '';
+		for await (const chunk of stream) {
+			data += chunk.toString();
+		}
+		return data;
+	}
+
+	const initialHeaders = { 'accept-ranges': 'bytes', etag: '"v1"', 'content-length': '10' };
+
+	describe('supportsRangeRequests', () => {
+		it('should detect Accept-Ranges: bytes', () => {
+			expect(supportsRangeRequests({ 'accept-ranges': 'bytes' })).toBe(true);
+			expect(supportsRangeRequests({ 'accept-ranges': 'none' })).toBe(false);
+			expect(supportsRangeRequests({})).toBe(false);
+		});
+	});
+
+	describe('parseContentRangeStart', () => {
+		it('should parse the start offset', () => {
+			expect(parseContentRangeStart('bytes 5-9/10')).toBe(5);
+			expect(parseContentRangeStart('bytes 5-9/*')).toBe(5);
+			expect(parseContentRangeStart('invalid')).toBeNull();
+			expect(parseContentRangeStart(undefined)).toBeNull();
+		});
+	});
+
+	describe('ResumableDownloadStream', () => {
+		it('should resume from the last delivered byte', async () => {
+			const reopen = jest.fn().mockResolvedValue(
+				createResponse(Readable.from([Buffer.from('fghij')]), 206, {
+					etag: '"v1"',
+					'content-range': 'bytes 5-9/10',
+				}),
+			);
+			const stream = new ResumableDownloadStream(
+				createResponse(createFailingBody(['abcde']), 200, initialHeaders),
+				{ maxResumes: 3, resumeDelay: 0, headers: { Accept: '*/*' }, reopen },
+			);
+
+			await expect(readAll(stream)).resolves.toBe('abcdefghij');
+			expect(stream.resumeCount).toBe(1);
+			expect(reopen).toHaveBeenCalledWith({
+				Accept: '*/*',
+				Range: 'bytes=5-',
+				'If-Range': '"v1"',
+			});
+		});
+
+		it('should fail when the ETag changes between attempts', async () => {
+			const reopen = jest.fn().mockResolvedValue(
+				createResponse(Readable.from([Buffer.from('fghij')]), 206, {
+					etag: '"v2"',
+					'content-range': 'bytes 5-9/10',
+				}),
+			);
+			const stream = new ResumableDownloadStream(
+				createResponse(createFailingBody(['abcde']), 200, initialHeaders),
+				{ maxResumes: 3, resumeDelay: 0, headers: {}, reopen },
+			);
+
+			await expect(readAll(stream)).rejects.toThrow('ETag changed from "v1" to "v2"');
+		});
+
+		it('should fail when the source ignores the Range header', async () => {
+			const reopen = jest.fn().mockResolvedValue(
+				createResponse(Readable.from([Buffer.from('abcdefghij')]), 200, { etag: '"v1"' }),
+			);
+			const stream = new ResumableDownloadStream(
+				createResponse(createFailingBody(['abcde']), 200, initialHeaders),
+				{ maxResumes: 3, resumeDelay: 0, headers: {}, reopen },
+			);
+
+			await expect(readAll(stream)).rejects.toThrow('instead of 206 Partial Content');
+		});
+
+		it('should give up after the maximum number of resumes', async () => {
+			const reopen = jest.fn().mockImplementation(async () =>
+				createResponse(createFailingBody([]), 206, {
+					etag: '"v1"',
+					'content-range': 'bytes 5-9/10',
+				}),
+			);
+			const stream = new ResumableDownloadStream(
+				createResponse(createFailingBody(['abcde']), 200, initialHeaders),
+				{ maxResumes: 2, resumeDelay: 0, headers: {}, reopen },
+			);
+
+			await expect(readAll(stream)).rejects.toThrow('could not be resumed after 2 attempt(s)');
+			expect(reopen).toHaveBeenCalledTimes(2);
+		});
+	});
+});
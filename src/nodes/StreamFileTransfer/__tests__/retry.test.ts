@@ -0,0 +1,139 @@
+import {
+	getAttemptFailure,
+	getRetryDelay,
+	getRetryPolicy,
+	isRetryable,
+	parseRetryAfter,
+	runWithRetry,
+} from '../utils/retry';
+import { TransferError } from '../GenericFunctions';
+
+describe('utils/retry', () => {
+	describe('getRetryPolicy', () => {
+		it('should disable retries when not configured', () => {
+			expect(getRetryPolicy({}).maxAttempts).toBe(1);
+		});
+
+		it('should parse status and error code lists', () => {
+			const policy = getRetryPolicy({
+				maxAttempts: 4,
+				retryOnStatusCodes: '429, 503,abc',
+				retryOnErrorCodes: 'econnreset, EPIPE',
+			});
+
+			expect(policy.maxAttempts).toBe(4);
+			expect(policy.retryOnStatusCodes).toEqual([429, 503]);
+			expect(policy.retryOnErrorCodes).toEqual(['ECONNRESET', 'EPIPE']);
+		});
+	});
+
+	describe('getAttemptFailure', () => {
+		it('should read details from a TransferError', () => {
+			const error = new TransferError('failed', { statusCode: 503, headers: { 'retry-after': '2' } });
+
+			expect(getAttemptFailure(error)).toEqual({
+				statusCode: 503,
+				code: undefined,
+				headers: { 'retry-after': '2' },
+			});
+		});
+
+		it('should read details from request helper errors', () => {
+			const error = Object.assign(new Error('failed'), {
+				response: { status: 429, headers: { 'retry-after': '1' } },
+				cause: { code: 'ECONNRESET' },
+			});
+
+			expect(getAttemptFailure(error)).toEqual({
+				statusCode: 429,
+				code: 'ECONNRESET',
+				headers: { 'retry-after': '1' },
+			});
+		});
+	});
+
+	describe('parseRetryAfter', () => {
+		it('should parse seconds and HTTP dates', () => {
+			const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+
+			expect(parseRetryAfter('5', now)).toBe(5000);
+			expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:10 GMT', now)).toBe(10000);
+			expect(parseRetryAfter('soon', now)).toBeNull();
+			expect(parseRetryAfter(undefined, now)).toBeNull();
+		});
+	});
+
+	describe('getRetryDelay', () => {
+		const policy = getRetryPolicy({ maxAttempts: 5, initialDelay: 100, maxDelay: 1000, jitter: false });
+
+		it('should only retry listed status and error codes', () => {
+			expect(isRetryable({ statusCode: 503 }, policy)).toBe(true);
+			expect(isRetryable({ statusCode: 404 }, policy)).toBe(false);
+			expect(isRetryable({ code: 'ECONNRESET' }, policy)).toBe(true);
+			expect(isRetryable({ code: 'ENOTFOUND' }, policy)).toBe(false);
+		});
+
+		it('should back off exponentially up to the maximum delay', () => {
+			expect(getRetryDelay(1, { statusCode: 503 }, policy)).toBe(100);
+			expect(getRetryDelay(2, { statusCode: 503 }, policy)).toBe(200);
+			expect(getRetryDelay(4, { statusCode: 503 }, policy)).toBe(800);
+			expect(getRetryDelay(4, { statusCode: 503 }, { ...policy, maxAttempts: 10, maxDelay: 500 })).toBe(500);
+		});
+
+		it('should stop after the last attempt', () => {
+			expect(getRetryDelay(5, { statusCode: 503 }, policy)).toBeNull();
+		});
+
+		it('should prefer the Retry-After header', () => {
+			expect(getRetryDelay(1, { statusCode: 429, headers: { 'retry-after': '0' } }, policy)).toBe(0);
+			expect(
+				getRetryDelay(1, { statusCode: 429, headers: { 'retry-after': '0' } }, { ...policy, respectRetryAfter: false }),
+			).toBe(100);
+		});
+
+		it('should keep jittered delays between half and the full delay', () => {
+			const delay = getRetryDelay(3, { statusCode: 503 }, { ...policy, jitter: true }) as number;
+
+			expect(delay).toBeGreaterThanOrEqual(200);
+			expect(delay).toBeLessThanOrEqual(400);
+		});
+	});
+
+	describe('runWithRetry', () => {
+		const policy = getRetryPolicy({ maxAttempts: 3, initialDelay: 0, jitter: false });
+		const getFailure = (statusCode: number) => (statusCode === 200 ? undefined : { statusCode });
+
+		it('should repeat failed results and thrown errors until an attempt succeeds', async () => {
+			const results = [503, Object.assign(new Error('reset'), { code: 'ECONNRESET' }), 200];
+			const discard = jest.fn();
+			const attempt = jest.fn(async (attemptNumber: number) => {
+				const result = results[attemptNumber - 1];
+				if (result instanceof Error) {
+					throw result;
+				}
+				return result;
+			});
+
+			await expect(runWithRetry(attempt, { policy, getFailure, discard })).resolves.toBe(200);
+			expect(attempt.mock.calls.map(([attemptNumber]) => attemptNumber)).toEqual([1, 2, 3]);
+			expect(discard).toHaveBeenCalledWith(503);
+		});
+
+		it('should return the failed result or throw the error when no retry is left', async () => {
+			await expect(runWithRetry(async () => 404, { policy, getFailure })).resolves.toBe(404);
+			await expect(
+				runWithRetry(async () => Promise.reject(new TransferError('refused', { statusCode: 403 })), { policy, getFailure }),
+			).rejects.toThrow('refused');
+		});
+
+		it('should repeat an attempt right away after a refresh', async () => {
+			const refresh = jest.fn(async ({ statusCode }) => statusCode === 401);
+			const attempt = jest.fn().mockResolvedValueOnce(401).mockResolvedValueOnce(200);
+
+			await expect(
+				runWithRetry(attempt, { policy: getRetryPolicy({}), getFailure, refresh }),
+			).resolves.toBe(200);
+			expect(refresh).toHaveBeenCalledWith({ statusCode: 401 }, 401);
+		});
+	});
+});
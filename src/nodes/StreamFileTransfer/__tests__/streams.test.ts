@@ -0,0 +1,138 @@
+import { CountingStream, peekStream, pipeStage, teeStream } from '../utils/streams';
+import { PassThrough, Readable } from 'stream';
+
+describe('utils/streams', () => {
+	describe('CountingStream', () => {
+		it('should count bytes and record the first byte time', async () => {
+			const stream = new CountingStream();
+			const chunks: Buffer[] = [];
+
+			await new Promise<void>((resolve, reject) => {
+				Readable.from([Buffer.from('abc'), Buffer.from('defg')])
+					.pipe(stream)
+					.on('data', (chunk: Buffer) => chunks.push(chunk))
+					.on('end', resolve)
+					.on('error', reject);
+			});
+
+			expect(Buffer.concat(chunks).toString()).toBe('abcdefg');
+			expect(stream.bytes).toBe(7);
+			expect(stream.firstByteAt).toEqual(expect.any(Number));
+		});
+	});
+
+	describe('pipeStage', () => {
+		it('should propagate source errors to the stage', async () => {
+			const source = new PassThrough();
+			const stage = pipeStage(source, new CountingStream());
+			const failed = new Promise((resolve) => stage.on('error', resolve));
+
+			source.destroy(new Error('source failed'));
+
+			await expect(failed).resolves.toEqual(expect.objectContaining({ message: 'source failed' }));
+		});
+
+		it('should destroy the source when the stage is destroyed', async () => {
+			const source = new PassThrough();
+			const stage = pipeStage(source, new CountingStream());
+			const closed = new Promise((resolve) => source.on('close', resolve));
+
+			stage.destroy();
+
+			await closed;
+			expect(source.destroyed).toBe(true);
+		});
+	});
+
+	describe('teeStream', () => {
+		async function collect(stream: NodeJS.ReadableStream): Promise<string> {
+			const chunks: Buffer[] = [];
+			for await (const chunk of stream) {
+				chunks.push(chunk as Buffer);
+			}
+			return Buffer.concat(chunks).toString();
+		}
+
+		it('should send every chunk to all branches', async () => {
+			const [a, b] = teeStream(Readable.from([Buffer.from('hello '), Buffer.from('world')]), 2);
+
+			await expect(Promise.all([collect(a), collect(b)])).resolves.toEqual(['hello world', 'hello world']);
+		});
+
+		it('should pause the source while a branch is not read', async () => {
+			const source = new PassThrough();
+			const [fast, slow] = teeStream(source, 2);
+			fast.resume();
+
+			source.write(Buffer.alloc(64 * 1024));
+			await new Promise((resolve) => setImmediate(resolve));
+
+			expect(source.isPaused()).toBe(true);
+			slow.resume();
+			await new Promise((resolve) => setImmediate(resolve));
+			expect(source.isPaused()).toBe(false);
+		});
+
+		it('should keep feeding the other branches when one is destroyed', async () => {
+			const source = new PassThrough();
+			const [failed, healthy] = teeStream(source, 2);
+
+			failed.destroy();
+			source.end('data');
+
+			await expect(collect(healthy)).resolves.toBe('data');
+			expect(source.destroyed).toBe(true);
+		});
+
+		it('should forward source errors to all branches', async () => {
+			const source = new PassThrough();
+			const branches = teeStream(source, 2);
+			const errors = branches.map((branch) => new Promise((resolve) => branch.on('error', resolve)));
+
+			source.destroy(new Error('download failed'));
+
+			for (const error of await Promise.all(errors)) {
+				expect(error).toEqual(expect.objectContaining({ message: 'download failed' }));
+			}
+		});
+	});
+
+	describe('peekStream', () => {
+		async function readAll(stream: Readable): Promise<string> {
+			const chunks: Buffer[] = [];
+			for await (const chunk of stream) {
+				chunks.push(chunk as Buffer);
+			}
+			return Buffer.concat(chunks).toString();
+		}
+
+		it('should return the first bytes and keep them in the stream', async () => {
+			const source = new PassThrough();
+			const head = peekStream(source, 5);
+			source.write('ab');
+			source.write('cdefg');
+			source.end('hij');
+
+			expect((await head).toString()).toBe('abcde');
+			expect(await readAll(source)).toBe('abcdefghij');
+		});
+
+		it('should return fewer bytes when the stream is shorter', async () => {
+			const source = Readable.from([Buffer.from('abc')], { objectMode: false });
+
+			expect((await peekStream(source, 512)).toString()).toBe('abc');
+			expect(await readAll(source)).toBe('abc');
+		});
+
+		it('should handle empty streams and reject on errors', async () => {
+			const empty = Readable.from([]);
+			expect(await peekStream(empty, 16)).toEqual(Buffer.alloc(0));
+			expect(await readAll(empty)).toBe('');
+
+			const failing = new PassThrough();
+			const head = peekStream(failing, 16);
+			failing.destroy(new Error('connection reset'));
+			await expect(head).rejects.toThrow('connection reset');
+		});
+	});
+});
@@ -0,0 +1,52 @@
+import { getUploadTemplateValues, hasUploadPlaceholders, resolveUploadTemplate } from '../utils/template';
+import { validateHeaderValue } from 'http';
+
+describe('utils/template', () => {
+	const values = getUploadTemplateValues('Annual Report.PDF', 'application/pdf', 1024, 'abcdef0123456789');
+
+	it('should detect placeholders', () => {
+		expect(hasUploadPlaceholders('https://cdn.example.com/{{ filename }}')).toBe(true);
+		expect(hasUploadPlaceholders('https://cdn.example.com/{{unknown}}')).toBe(false);
+	});
+
+	it('should collect the values of a download', () => {
+		expect(values).toEqual({
+			filename: 'Annual Report.PDF',
+			ext: 'pdf',
+			contentType: 'application/pdf',
+			size: '1024',
+			'sha256-prefix': 'abcdef01',
+		});
+		expect(getUploadTemplateValues('..', 'text/plain', undefined, null)).toMatchObject({ filename: 'file', ext: '' });
+	});
+
+	it('should encode values in URLs only', () => {
+		expect(resolveUploadTemplate('https://cdn.example.com/{{ext}}/{{sha256-prefix}}-{{filename}}', values, 'url')).toBe(
+			'https://cdn.example.com/pdf/abcdef01-Annual%20Report.PDF',
+		);
+		expect(resolveUploadTemplate('{{contentType}}; size={{size}}', values, 'header')).toBe('application/pdf; size=1024');
+		expect(resolveUploadTemplate('{{other}}', values, 'none')).toBe('{{other}}');
+	});
+
+	it('should percent-encode header values that a header field cannot carry', () => {
+		const unicode = getUploadTemplateValues('Überweisung März.pdf', 'application/pdf', 1024, null);
+		const broken = getUploadTemplateValues('a\r\nX-Injected: 1.pdf', 'application/pdf', 1024, null);
+
+		const header = resolveUploadTemplate(`attachment; filename*=UTF-8''{{filename}}`, unicode, 'header');
+
+		expect(header).toBe(`attachment; filename*=UTF-8''%C3%9Cberweisung%20M%C3%A4rz.pdf`);
+		expect(() => validateHeaderValue('Content-Disposition', header)).not.toThrow();
+		expect(resolveUploadTemplate('{{filename}}', broken, 'header')).toBe('a%0D%0AX-Injected%3A%201.pdf');
+		expect(resolveUploadTemplate('{{filename}}', values, 'header')).toBe('Annual Report.PDF');
+		expect(resolveUploadTemplate('{{filename}}', unicode, 'none')).toBe('Überweisung März.pdf');
+	});
+
+	it('should fail for placeholders without a value', () => {
+		const partial = getUploadTemplateValues('a.txt', 'text/plain', undefined, null);
+
+		expect(() => resolveUploadTemplate('/{{size}}', partial, 'url')).toThrow('did not report a Content-Length');
+		expect(() => resolveUploadTemplate('/{{sha256-prefix}}', partial, 'url')).toThrow(
+			expect.objectContaining({ code: 'UPLOAD_TEMPLATE_UNRESOLVED' }),
+		);
+	});
+});
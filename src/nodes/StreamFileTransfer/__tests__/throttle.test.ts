@@ -0,0 +1,76 @@
+import { ThrottleStream, TokenBucket } from '../utils/throttle';
+import { Readable } from 'stream';
+
+describe('utils/throttle', () => {
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	describe('TokenBucket', () => {
+		it('should allow a burst and then require waiting for the debt', () => {
+			let now = 1000;
+			jest.spyOn(Date, 'now').mockImplementation(() => now);
+			const bucket = new TokenBucket(1000);
+
+			expect(bucket.take(1000)).toBe(0);
+			expect(bucket.take(500)).toBe(500);
+
+			now += 500;
+			expect(bucket.take(0)).toBe(0);
+		});
+
+		it('should not accumulate more tokens than the burst size', () => {
+			let now = 0;
+			jest.spyOn(Date, 'now').mockImplementation(() => now);
+			const bucket = new TokenBucket(1000, 100);
+
+			now += 10000;
+			expect(bucket.take(100)).toBe(0);
+			expect(bucket.take(100)).toBe(100);
+		});
+	});
+
+	describe('ThrottleStream', () => {
+		it('should limit throughput while passing data through unchanged', async () => {
+			const bucket = new TokenBucket(10 * 1024, 1024);
+			const stream = new ThrottleStream(bucket);
+			const chunks: Buffer[] = [];
+			const start = Date.now();
+
+			await new Promise<void>((resolve, reject) => {
+				Readable.from([Buffer.alloc(1024, 1), Buffer.alloc(1024, 2), Buffer.alloc(1024, 3)])
+					.pipe(stream)
+					.on('data', (chunk: Buffer) => chunks.push(chunk))
+					.on('end', resolve)
+					.on('error', reject);
+			});
+
+			// 1 KB burst, then 2 KB at 10 KB/s = ~200ms
+			expect(Date.now() - start).toBeGreaterThanOrEqual(180);
+			expect(Buffer.concat(chunks)).toEqual(
+				Buffer.concat([Buffer.alloc(1024, 1), Buffer.alloc(1024, 2), Buffer.alloc(1024, 3)]),
+			);
+		});
+
+		it('should share the limit between streams using the same bucket', async () => {
+			const bucket = new TokenBucket(10 * 1024, 1024);
+			const start = Date.now();
+
+			await Promise.all(
+				[1, 2].map(
+					(value) =>
+						new Promise<void>((resolve, reject) => {
+							Readable.from([Buffer.alloc(1024, value), Buffer.alloc(1024, value)])
+								.pipe(new ThrottleStream(bucket))
+								.on('data', () => {})
+								.on('end', resolve)
+								.on('error', reject);
+						}),
+				),
+			);
+
+			// 4 KB total: 1 KB burst, then 3 KB at 10 KB/s = ~300ms
+			expect(Date.now() - start).toBeGreaterThanOrEqual(280);
+		});
+	});
+});
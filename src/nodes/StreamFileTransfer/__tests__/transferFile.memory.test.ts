@@ -3,6 +3,7 @@ import { execute } from '../actions/transferFile.operation';
 import { Readable } from 'stream';
 import * as https from 'https';
 import * as http from 'http';
+import { promises as dnsPromises } from 'dns';
 
 // Mock native HTTP/HTTPS modules
 jest.mock('https');
@@ -51,6 +52,8 @@ describe('transferFile.operation - Memory Usage', () => {
 		jest.spyOn(https, 'request').mockImplementation(mockHttpsRequest as any);
 		// Mock HTTP request
 		jest.spyOn(http, 'request').mockImplementation(jest.fn() as any);
+		// Upload hosts are resolved for the private network check
+		jest.spyOn(dnsPromises, 'lookup').mockResolvedValue([{ address: '93.184.215.14', family: 4 }] as any);
 
 		mockExecuteFunctions = {
 			getNodeParameter: jest.fn((param: string, _itemIndex: number, defaultValue?: any) => {
@@ -0,0 +1,130 @@
+import { encodeMetadata, TusUpload, type TusHttpRequest, type TusUploadOptions } from '../transport/tus';
+import { Readable } from 'stream';
+
+describe('transport/tus', () => {
+	/**
+	 * In-memory tus server; failPatch can drop a request after storing part of its body
+	 */
+	function createServer(failPatch?: (call: number) => { store: number; statusCode?: number } | undefined) {
+		const state = { data: Buffer.alloc(0), uploadLength: undefined as number | undefined, patches: 0 };
+		const send = jest.fn(async (request: TusHttpRequest) => {
+			expect(request.headers['Tus-Resumable']).toBe('1.0.0');
+			if (request.method === 'POST') {
+				if (request.headers['Upload-Length'] !== undefined) {
+					state.uploadLength = Number(request.headers['Upload-Length']);
+				}
+				return { statusCode: 201, headers: { location: '/files/abc' }, body: '' };
+			}
+			if (request.method === 'HEAD') {
+				return { statusCode: 200, headers: { 'upload-offset': String(state.data.length) }, body: '' };
+			}
+
+			state.patches++;
+			if (Number(request.headers['Upload-Offset']) !== state.data.length) {
+				return { statusCode: 409, headers: {}, body: '' };
+			}
+			if (request.headers['Upload-Length'] !== undefined) {
+				state.uploadLength = Number(request.headers['Upload-Length']);
+			}
+			const body = request.body ?? Buffer.alloc(0);
+			const failure = failPatch?.(state.patches);
+			if (failure) {
+				state.data = Buffer.concat([state.data, body.subarray(0, failure.store)]);
+				if (failure.statusCode) {
+					return { statusCode: failure.statusCode, headers: {}, body: '' };
+				}
+				throw Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+			}
+			state.data = Buffer.concat([state.data, body]);
+			return { statusCode: 204, headers: { 'upload-offset': String(state.data.length) }, body: '' };
+		});
+		return { send, state };
+	}
+
+	const content = Buffer.from('abcdefghijklmnopqrstuvwxyz');
+
+	const baseOptions: TusUploadOptions = {
+		endpoint: 'https://tus.example.com/files/',
+		headers: { Authorization: 'Bearer secret' },
+		uploadLength: content.length,
+		chunkSize: 10,
+		metadata: { filename: 'file.txt', filetype: '' },
+		maxResumes: 3,
+		resumeDelay: 0,
+	};
+
+	describe('encodeMetadata', () => {
+		it('should base64-encode values and skip empty ones', () => {
+			expect(encodeMetadata({ filename: 'a b.txt', filetype: 'text/plain', empty: '' })).toBe(
+				'filename YSBiLnR4dA==,filetype dGV4dC9wbGFpbg==',
+			);
+		});
+	});
+
+	describe('TusUpload', () => {
+		it('should create the upload and send the stream in chunks', async () => {
+			const { send, state } = createServer();
+
+			const result = await new TusUpload(baseOptions, send).upload(Readable.from([content]));
+
+			expect(state.data.toString()).toBe(content.toString());
+			expect(result).toEqual({
+				uploadUrl: 'https://tus.example.com/files/abc',
+				offset: 26,
+				chunks: 3,
+				resumes: 0,
+			});
+
+			const create = send.mock.calls[0][0];
+			expect(create.headers['Upload-Length']).toBe('26');
+			expect(create.headers['Upload-Metadata']).toBe('filename ZmlsZS50eHQ=');
+			expect(create.headers.Authorization).toBe('Bearer secret');
+			const patches = send.mock.calls.slice(1).map(([request]) => request.headers['Upload-Offset']);
+			expect(patches).toEqual(['0', '10', '20']);
+			expect(send.mock.calls[1][0].headers['Content-Type']).toBe('application/offset+octet-stream');
+		});
+
+		it('should query the offset with HEAD and resume after a failed PATCH', async () => {
+			const { send, state } = createServer((call) => (call === 2 ? { store: 4 } : undefined));
+
+			const result = await new TusUpload(baseOptions, send).upload(Readable.from([content]));
+
+			expect(state.data.toString()).toBe(content.toString());
+			expect(result.resumes).toBe(1);
+			const methods = send.mock.calls.map(([request]) =>
+				`${request.method} ${request.headers['Upload-Offset'] ?? ''}`.trim(),
+			);
+			expect(methods).toEqual(['POST', 'PATCH 0', 'PATCH 10', 'HEAD', 'PATCH 14', 'PATCH 20']);
+		});
+
+		it('should declare a deferred length with the last chunk', async () => {
+			const { send, state } = createServer();
+
+			await new TusUpload({ ...baseOptions, uploadLength: undefined }, send).upload(
+				Readable.from([content.subarray(0, 20)]),
+			);
+
+			expect(send.mock.calls[0][0].headers['Upload-Defer-Length']).toBe('1');
+			expect(send.mock.calls[1][0].headers['Upload-Length']).toBeUndefined();
+			expect(send.mock.calls[2][0].headers['Upload-Length']).toBe('20');
+			expect(state.uploadLength).toBe(20);
+		});
+
+		it('should fail without resuming on non-resumable status codes', async () => {
+			const { send } = createServer((call) => (call === 1 ? { store: 0, statusCode: 403 } : undefined));
+
+			await expect(new TusUpload(baseOptions, send).upload(Readable.from([content]))).rejects.toThrow(
+				'tus PATCH at offset 0 failed with HTTP 403',
+			);
+			expect(send.mock.calls.some(([request]) => request.method === 'HEAD')).toBe(false);
+		});
+
+		it('should fail when the resume limit is reached', async () => {
+			const { send } = createServer(() => ({ store: 1 }));
+
+			await expect(
+				new TusUpload({ ...baseOptions, maxResumes: 2 }, send).upload(Readable.from([content])),
+			).rejects.toThrow('socket hang up');
+		});
+	});
+});
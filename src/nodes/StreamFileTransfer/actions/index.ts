@@ -1,8 +1,10 @@
 /**
  * Actions Index
  * 
- * Exports all available operations/actions for the Stream File Transfer node.
- * Currently contains a single operation: transferFile
+ * Exports all available operations/actions for the Stream File Transfer node:
+ * - transferFile: stream a download URL to an upload destination
+ * - downloadToBinary: stream a download URL into n8n binary data
+ * - uploadFromBinary: stream n8n binary data to an upload URL
  * 
  * This module serves as the central registry for all node operations,
  * making it easy to add additional operations in the future if needed.
@@ -11,7 +13,9 @@
  */
 
 import type { IExecuteFunctions, INodeProperties, INodeExecutionData } from 'n8n-workflow';
+import * as downloadToBinary from './downloadToBinary.operation';
 import * as transferFile from './transferFile.operation';
+import * as uploadFromBinary from './uploadFromBinary.operation';
 
 /**
  * Registry of all available operations
@@ -31,4 +35,12 @@ export const operations: Record<
 		description: transferFile.description,
 		execute: transferFile.execute,
 	},
+	downloadToBinary: {
+		description: downloadToBinary.description,
+		execute: downloadToBinary.execute,
+	},
+	uploadFromBinary: {
+		description: uploadFromBinary.description,
+		execute: uploadFromBinary.execute,
+	},
 };
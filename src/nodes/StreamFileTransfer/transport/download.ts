@@ -0,0 +1,362 @@
+/**
+ * Download Transport
+ * 
+ * Opens the download leg of a transfer using Node.js native HTTP/HTTPS.
+ * 
+ * Native modules are used instead of n8n's helpers.request() because the helper may
+ * buffer responses even with encoding: null/stream. The response returned here is
+ * always the raw IncomingMessage, so it can be piped straight into the upload body.
+ * 
+ * Redirects (301/302/303/307/308) are followed manually so that the hop count can be
+ * limited and credentials are not leaked to other hosts.
+ * 
+ * The request is a GET by default. POST and PUT requests can carry a body, e.g. for export
+ * APIs that stream a report back for a JSON query.
+ * 
+ * When proxy settings are given, every hop is routed through the proxy resolved for its
+ * URL (HTTPS through a CONNECT tunnel).
+ * 
+ * With a host policy, every hop is checked before it connects: direct connections check the
+ * addresses returned by their DNS lookup, proxied ones resolve the target host beforehand.
+ * 
+ * @module transport/download
+ */
+
+import { URL } from 'url';
+import * as http from 'http';
+import * as https from 'https';
+import type { Readable } from 'stream';
+import * as tls from 'tls';
+import { findHeaderKey, TransferError } from '../GenericFunctions';
+import {
+	getDefaultPort,
+	getProxyAuthorization,
+	openTunnel,
+	resolveProxy,
+	type ProxySettings,
+} from './proxy';
+import { assertHostAllowed, createGuardedLookup, type HostPolicy } from '../utils/hostPolicy';
+import type { TlsOptions } from '../utils/tls';
+
+/**
+ * HTTP status codes treated as redirects
+ */
+const REDIRECT_STATUS_CODES = [301, 302, 303, 307, 308];
+
+/**
+ * Headers that carry credentials and are dropped when a redirect leaves the original origin
+ */
+const CREDENTIAL_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+
+/**
+ * Headers describing the request body, dropped when a redirect turns the request into a GET
+ */
+const BODY_HEADERS = ['content-type', 'content-length'];
+
+/**
+ * HTTP methods supported for the download request
+ */
+export type DownloadMethod = 'GET' | 'POST' | 'PUT';
+
+/**
+ * A single redirect hop recorded while resolving the download URL
+ */
+export interface RedirectHop {
+	url: string;
+	statusCode: number;
+	location: string;
+}
+
+/**
+ * Options for opening a download stream
+ */
+export interface DownloadRequestOptions {
+	/** URL to download from */
+	url: string;
+	/** Request headers sent with the first request */
+	headers: Record<string, string>;
+	/** HTTP method of the first request (default: GET) */
+	method?: DownloadMethod;
+	/** Request body for POST and PUT; Content-Length is added if missing */
+	body?: string;
+	/** Timeout in milliseconds for each request (0 = no timeout) */
+	timeout: number;
+	/** Whether 3xx redirects with a Location header are followed */
+	followRedirects: boolean;
+	/** Maximum number of redirects to follow before failing */
+	maxRedirects: number;
+	/** Whether credential headers are kept when a redirect points to another origin */
+	forwardAuthorization: boolean;
+	/** Additional header names treated as credentials (e.g. a custom API key header) */
+	credentialHeaders?: string[];
+	/** Proxy settings; requests go directly to the target when omitted */
+	proxy?: ProxySettings;
+	/** TLS settings for HTTPS connections (custom CA, client certificate, validation) */
+	tls?: TlsOptions;
+	/** Hosts the download may connect to; every host is allowed when omitted */
+	hostPolicy?: HostPolicy;
+}
+
+/**
+ * Successful download response
+ */
+export interface DownloadResponse {
+	/** Response body stream - a true Node.js ReadableStream (a file stream for file:// sources) */
+	stream: Readable;
+	statusCode: number;
+	headers: http.IncomingHttpHeaders;
+	/** URL that finally answered with a 2xx status */
+	finalUrl: string;
+	/** Redirects followed to reach finalUrl, in order */
+	redirects: RedirectHop[];
+	/** Headers sent with the request to finalUrl (credentials may have been stripped) */
+	requestHeaders: Record<string, string>;
+}
+
+/**
+ * Copy a header object without the given headers (case-insensitive)
+ * 
+ * @param headers - Headers to filter
+ * @param names - Lower-case names of the headers to remove
+ * @returns Filtered copy of the headers
+ */
+function omitHeaders(headers: Record<string, string>, names: string[]): Record<string, string> {
+	const result: Record<string, string> = {};
+	for (const [key, value] of Object.entries(headers)) {
+		if (!names.includes(key.toLowerCase())) {
+			result[key] = value;
+		}
+	}
+	return result;
+}
+
+/**
+ * Remove credential headers (case-insensitive) from a header object
+ * 
+ * @param headers - Headers to filter
+ * @param additional - Further header names to remove
+ * @returns Copy of the headers without Authorization, Cookie, Proxy-Authorization and the additional headers
+ */
+export function stripCredentialHeaders(
+	headers: Record<string, string>,
+	additional: string[] = [],
+): Record<string, string> {
+	return omitHeaders(headers, [...CREDENTIAL_HEADERS, ...additional.map((name) => name.toLowerCase())]);
+}
+
+/**
+ * Build the request options for a URL, routed through a proxy if one applies
+ * 
+ * @param url - Parsed URL to request
+ * @param method - HTTP method
+ * @param headers - Request headers
+ * @param timeout - Timeout in milliseconds, also used for the CONNECT request
+ * @param proxySettings - Proxy settings, if any
+ * @param tlsOptions - TLS settings for HTTPS targets, if any
+ * @param hostPolicy - Hosts that may be contacted, if restricted
+ * @returns Client module and request options
+ * @throws TransferError with code HOST_NOT_ALLOWED if the target host is not allowed
+ */
+async function getRequestOptions(
+	url: URL,
+	method: DownloadMethod,
+	headers: Record<string, string>,
+	timeout: number,
+	proxySettings: ProxySettings | undefined,
+	tlsOptions: TlsOptions | undefined,
+	hostPolicy: HostPolicy | undefined,
+): Promise<{ client: typeof http | typeof https; requestOptions: https.RequestOptions }> {
+	const requestOptions: https.RequestOptions = {
+		hostname: url.hostname,
+		port: url.port || getDefaultPort(url),
+		path: url.pathname + url.search,
+		method,
+		headers,
+	};
+	if (url.protocol === 'https:' && tlsOptions) {
+		Object.assign(requestOptions, tlsOptions);
+	}
+	const proxy = proxySettings ? resolveProxy(url, proxySettings) : null;
+
+	// Through a proxy only the target name is known here; direct connections check in the lookup
+	if (hostPolicy) {
+		await assertHostAllowed(hostPolicy, url.hostname, proxy !== null);
+	}
+
+	if (!proxy) {
+		if (hostPolicy) {
+			requestOptions.lookup = createGuardedLookup(hostPolicy);
+		}
+		return { client: url.protocol === 'https:' ? https : http, requestOptions };
+	}
+
+	if (url.protocol === 'https:') {
+		// TLS runs end to end through the tunnel; the proxy only relays bytes
+		const socket = await openTunnel(proxy, url, timeout, tlsOptions);
+		requestOptions.agent = false;
+		requestOptions.createConnection = () => tls.connect({ ...tlsOptions, socket, servername: url.hostname });
+		return { client: https, requestOptions };
+	}
+
+	// Plain HTTP: ask the proxy for the absolute URL
+	const proxyHeaders: Record<string, string> = { ...headers, Host: url.host };
+	const authorization = getProxyAuthorization(proxy);
+	if (authorization) {
+		proxyHeaders['Proxy-Authorization'] = authorization;
+	}
+	return {
+		client: proxy.protocol === 'https:' ? https : http,
+		requestOptions: {
+			hostname: proxy.hostname,
+			port: proxy.port || getDefaultPort(proxy),
+			path: url.href,
+			method,
+			headers: proxyHeaders,
+			...(proxy.protocol === 'https:' ? tlsOptions : {}),
+		},
+	};
+}
+
+/**
+ * Send a single request and resolve with the response, whatever its status
+ * 
+ * @param url - Parsed URL to request
+ * @param method - HTTP method
+ * @param body - Request body, if any
+ * @param headers - Request headers
+ * @param timeout - Timeout in milliseconds (0 = no timeout)
+ * @param proxySettings - Proxy settings, if any
+ * @param tlsOptions - TLS settings for HTTPS connections, if any
+ * @param hostPolicy - Hosts that may be contacted, if restricted
+ * @returns The native response
+ */
+async function sendRequest(
+	url: URL,
+	method: DownloadMethod,
+	body: string | undefined,
+	headers: Record<string, string>,
+	timeout: number,
+	proxySettings?: ProxySettings,
+	tlsOptions?: TlsOptions,
+	hostPolicy?: HostPolicy,
+): Promise<http.IncomingMessage> {
+	const { client, requestOptions } = await getRequestOptions(
+		url,
+		method,
+		headers,
+		timeout,
+		proxySettings,
+		tlsOptions,
+		hostPolicy,
+	);
+
+	return new Promise<http.IncomingMessage>((resolve, reject) => {
+		const req = client.request(requestOptions, (res) => resolve(res));
+
+		// Handle request errors (network failures, DNS errors, etc.)
+		req.on('error', (error: NodeJS.ErrnoException) => {
+			reject(new TransferError(`Download request failed: ${error.message}`, { code: error.code }));
+		});
+
+		// Set timeout if configured (0 means no timeout)
+		if (timeout > 0) {
+			req.setTimeout(timeout, () => {
+				req.destroy();
+				reject(
+					new TransferError(`Download request timeout: ${timeout / 1000} seconds exceeded`, {
+						code: 'ETIMEDOUT',
+					}),
+				);
+			});
+		}
+
+		req.end(body);
+	});
+}
+
+/**
+ * Open a streaming download, following redirects if enabled
+ * 
+ * Each redirect response is discarded and the Location header is resolved against the
+ * current URL. When the next hop has a different origin (host, port or scheme, so an
+ * https to http downgrade counts too), credential headers are removed unless
+ * forwardAuthorization is set. Like browsers, a 303 (and a 301/302 after a POST) is
+ * followed with a GET without body; 307 and 308 repeat the method and body.
+ * 
+ * @param options - Download request options
+ * @returns The first 2xx response together with the final URL and redirect chain
+ * @throws Error if the final response is not 2xx, too many redirects occur or the request fails
+ */
+export async function openDownloadStream(options: DownloadRequestOptions): Promise<DownloadResponse> {
+	const redirects: RedirectHop[] = [];
+	let currentUrl = new URL(options.url);
+	let method = options.method ?? 'GET';
+	let body = options.body;
+	let headers = options.headers;
+	if (body !== undefined && !findHeaderKey(headers, 'content-length')) {
+		headers = { ...headers, 'Content-Length': String(Buffer.byteLength(body)) };
+	}
+
+	for (;;) {
+		const res = await sendRequest(
+			currentUrl,
+			method,
+			body,
+			headers,
+			options.timeout,
+			options.proxy,
+			options.tls,
+			options.hostPolicy,
+		);
+		const statusCode = res.statusCode || 0;
+		const location = res.headers.location;
+
+		if (options.followRedirects && REDIRECT_STATUS_CODES.includes(statusCode) && location) {
+			res.destroy(); // Redirect bodies are not needed
+
+			if (redirects.length >= options.maxRedirects) {
+				throw new Error(
+					`Download failed: maximum of ${options.maxRedirects} redirects exceeded starting from ${options.url}`,
+				);
+			}
+
+			const nextUrl = new URL(location, currentUrl);
+			if (nextUrl.protocol !== 'http:' && nextUrl.protocol !== 'https:') {
+				throw new Error(`Download failed: redirect to unsupported protocol ${nextUrl.protocol} from ${currentUrl.href}`);
+			}
+
+			redirects.push({ url: currentUrl.href, statusCode, location: nextUrl.href });
+
+			if (statusCode === 303 || (method === 'POST' && (statusCode === 301 || statusCode === 302))) {
+				method = 'GET';
+				body = undefined;
+				headers = omitHeaders(headers, BODY_HEADERS);
+			}
+
+			if (nextUrl.origin !== currentUrl.origin && !options.forwardAuthorization) {
+				headers = stripCredentialHeaders(headers, options.credentialHeaders);
+			}
+			currentUrl = nextUrl;
+			continue;
+		}
+
+		// Validate download response status
+		if (statusCode < 200 || statusCode >= 300) {
+			res.destroy(); // Clean up failed response
+			const failedUrl = redirects.length > 0 ? currentUrl.href : options.url;
+			throw new TransferError(
+				`Download failed with HTTP ${statusCode} from ${failedUrl}. Please verify the download URL is accessible and returns a successful response.`,
+				{ statusCode, headers: res.headers },
+			);
+		}
+
+		return {
+			stream: res,
+			statusCode,
+			headers: res.headers,
+			finalUrl: currentUrl.href,
+			redirects,
+			requestHeaders: headers,
+		};
+	}
+}
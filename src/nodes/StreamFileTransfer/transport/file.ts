@@ -0,0 +1,248 @@
+/**
+ * Local File Transport
+ *
+ * Reads and writes file:// URLs on the n8n host with fs streams, so a file on disk can be
+ * the source or the destination of a transfer.
+ *
+ * Safety:
+ * - File access is only allowed below a configured base directory. Paths are compared after
+ *   resolving symbolic links, so a link inside the base directory cannot point outside of it.
+ * - Files are written to a temporary file in the target directory and moved into place when
+ *   the transfer is complete, so readers never see a partial file and a failed transfer
+ *   leaves nothing behind. Filesystems without hard links (vfat, exFAT, SMB and some FUSE
+ *   mounts) get an exclusive copy when an existing file must not be replaced.
+ *
+ * @module transport/file
+ */
+
+import { randomBytes } from 'crypto';
+import { constants as fsConstants, createReadStream, createWriteStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { pipeline, type Readable } from 'stream';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { TransferError } from '../GenericFunctions';
+import type { DownloadResponse } from './download';
+
+/**
+ * What to do when the destination file already exists
+ */
+export type FileExistsBehavior = 'overwrite' | 'skip' | 'fail';
+
+/**
+ * Error codes of link() on filesystems without hard links
+ */
+const LINK_UNSUPPORTED_CODES = ['EPERM', 'ENOTSUP', 'EOPNOTSUPP', 'ENOSYS', 'EXDEV'];
+
+/**
+ * Result of writing a file
+ */
+export interface FileWriteResult {
+	path: string;
+	bytesWritten: number;
+}
+
+/**
+ * Check whether a URL points to the local filesystem
+ */
+export function isFileUrl(url: string): boolean {
+	return /^file:/i.test(url.trim());
+}
+
+/**
+ * Resolve a path through symbolic links, also if the file itself does not exist yet
+ *
+ * The deepest existing ancestor is resolved and the missing remainder appended.
+ *
+ * @param target - Absolute path
+ * @returns Real path
+ */
+async function realPathOf(target: string): Promise<string> {
+	try {
+		return await fs.realpath(target);
+	} catch (error) {
+		const parent = path.dirname(target);
+		if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === target) {
+			throw error;
+		}
+		return path.join(await realPathOf(parent), path.basename(target));
+	}
+}
+
+/**
+ * Convert a file:// URL to a local path below the allowed base directory
+ *
+ * @param url - file:// URL
+ * @param baseDirectory - Directory that file access is restricted to
+ * @returns Absolute path with symbolic links resolved
+ * @throws TransferError if no base directory is configured, the URL is invalid or the path is outside the base directory
+ */
+export async function resolveLocalPath(url: string, baseDirectory: string): Promise<string> {
+	if (!baseDirectory.trim()) {
+		throw new TransferError('file:// URLs require the Allowed Base Directory option', {
+			code: 'FILE_ACCESS_DENIED',
+		});
+	}
+
+	let filePath: string;
+	try {
+		filePath = fileURLToPath(url.trim());
+	} catch (error) {
+		throw new TransferError(`Invalid file URL ${url}: ${(error as Error).message}`, { code: 'FILE_ACCESS_DENIED' });
+	}
+
+	const base = await realPathOf(path.resolve(baseDirectory.trim()));
+	const resolved = await realPathOf(path.resolve(filePath));
+	const relative = path.relative(base, resolved);
+	if (relative === '' || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+		throw new TransferError(`${url} is outside the allowed base directory ${base}`, { code: 'FILE_ACCESS_DENIED' });
+	}
+	return resolved;
+}
+
+/**
+ * Open a local file as download
+ *
+ * The result looks like an HTTP response, so the rest of the pipeline treats both sources
+ * the same: Content-Length and Last-Modified are taken from the file.
+ *
+ * @param filePath - Path returned by resolveLocalPath
+ * @returns Download response with a file read stream
+ * @throws TransferError if the file does not exist or is not a regular file
+ */
+export async function openFileDownload(filePath: string): Promise<DownloadResponse> {
+	let stats;
+	try {
+		stats = await fs.stat(filePath);
+	} catch (error) {
+		const err = error as NodeJS.ErrnoException;
+		throw new TransferError(
+			err.code === 'ENOENT' ? `File ${filePath} does not exist` : `Cannot read ${filePath}: ${err.message}`,
+			{ code: err.code },
+		);
+	}
+	if (!stats.isFile()) {
+		throw new TransferError(`${filePath} is not a file`, { code: 'EISDIR' });
+	}
+
+	return {
+		stream: createReadStream(filePath),
+		statusCode: 200,
+		headers: {
+			'content-length': String(stats.size),
+			'last-modified': stats.mtime.toUTCString(),
+		},
+		finalUrl: pathToFileURL(filePath).href,
+		redirects: [],
+		requestHeaders: {},
+	};
+}
+
+/**
+ * Check whether a file exists
+ */
+export async function fileExists(filePath: string): Promise<boolean> {
+	try {
+		await fs.lstat(filePath);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Build the error for a destination file that already exists
+ */
+function fileExistsError(filePath: string): TransferError {
+	return new TransferError(`File ${filePath} already exists`, { code: 'EEXIST' });
+}
+
+/**
+ * Fail if the destination file exists already
+ *
+ * Lets a transfer stop before anything is downloaded; writeFileAtomically still refuses a
+ * file that appeared in the meantime.
+ *
+ * @param filePath - Path returned by resolveLocalPath
+ * @throws TransferError with code EEXIST if the file exists
+ */
+export async function assertFileAbsent(filePath: string): Promise<void> {
+	if (await fileExists(filePath)) {
+		throw fileExistsError(filePath);
+	}
+}
+
+/**
+ * Move a complete temporary file to a target that must not exist
+ *
+ * A hard link fails atomically if the target exists. Where link() is not supported, the file
+ * is copied to a target that is created exclusively instead; readers may then see the file
+ * while it is being copied.
+ *
+ * @param tempPath - Temporary file, removed on success
+ * @param filePath - Target path
+ * @throws Error with code EEXIST if the target exists
+ */
+async function moveExclusively(tempPath: string, filePath: string): Promise<void> {
+	try {
+		await fs.link(tempPath, filePath);
+	} catch (error) {
+		if (!LINK_UNSUPPORTED_CODES.includes((error as NodeJS.ErrnoException).code ?? '')) {
+			throw error;
+		}
+		try {
+			await fs.copyFile(tempPath, filePath, fsConstants.COPYFILE_EXCL);
+		} catch (copyError) {
+			// Remove a partial copy, but never a file that was there before
+			if ((copyError as NodeJS.ErrnoException).code !== 'EEXIST') {
+				await fs.rm(filePath, { force: true });
+			}
+			throw copyError;
+		}
+	}
+	await fs.unlink(tempPath);
+}
+
+/**
+ * Write a stream to a local file through a temporary file
+ *
+ * The data is written to a hidden temporary file next to the target, which is renamed
+ * into place after the stream ended. Without overwrite the final step refuses a target
+ * that appeared in the meantime (see moveExclusively).
+ *
+ * @param body - Data to write
+ * @param filePath - Path returned by resolveLocalPath
+ * @param overwrite - Whether an existing file is replaced
+ * @returns Path and number of bytes written
+ * @throws TransferError if the file exists and overwrite is disabled
+ */
+export async function writeFileAtomically(
+	body: Readable,
+	filePath: string,
+	overwrite: boolean,
+): Promise<FileWriteResult> {
+	const directory = path.dirname(filePath);
+	const tempPath = path.join(directory, `.${path.basename(filePath)}.${randomBytes(6).toString('hex')}.tmp`);
+
+	try {
+		await fs.mkdir(directory, { recursive: true });
+		const output = createWriteStream(tempPath, { flags: 'wx' });
+		await new Promise<void>((resolve, reject) => {
+			pipeline(body, output, (error) => (error ? reject(error) : resolve()));
+		});
+		const bytesWritten = output.bytesWritten;
+
+		if (overwrite) {
+			await fs.rename(tempPath, filePath);
+		} else {
+			await moveExclusively(tempPath, filePath);
+		}
+		return { path: filePath, bytesWritten };
+	} catch (error) {
+		await fs.rm(tempPath, { force: true });
+		// Download errors surface here too and are passed on unchanged for the retry decision
+		if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+			throw fileExistsError(filePath);
+		}
+		throw error;
+	}
+}
@@ -0,0 +1,308 @@
+/**
+ * FTP Transport
+ *
+ * Reads and writes ftp:// and ftps:// URLs with the basic-ftp library, so an FTP server can be
+ * the source or the destination of a transfer. Files are streamed with RETR and STOR over
+ * passive mode data connections (EPSV, falling back to PASV).
+ *
+ * URL format: ftp[s]://[user[:password]@]host[:port]/path/to/file
+ * - ftps:// uses explicit FTPS (AUTH TLS on port 21); the TLS settings of the node apply
+ * - The path is absolute; paths starting with /~/ are relative to the login directory
+ * - Login data from the FTP credential takes precedence over user and password in the URL;
+ *   without either, the anonymous login is used
+ * - The download's Content-Length is taken from the SIZE command, if the server supports it
+ * - With a host policy, the host is resolved and checked once and the connection goes to the
+ *   checked address; TLS still verifies the certificate against the host name
+ *
+ * @module transport/ftp
+ */
+
+import { Client, FTPError, type AccessOptions } from 'basic-ftp';
+import * as path from 'path';
+import { PassThrough, pipeline, Writable, type Readable } from 'stream';
+import { isIP } from 'net';
+import { URL } from 'url';
+import { TransferError } from '../GenericFunctions';
+import { resolveAllowedHost, type HostPolicy } from '../utils/hostPolicy';
+import { CountingStream } from '../utils/streams';
+import type { TlsOptions } from '../utils/tls';
+import type { DownloadResponse } from './download';
+
+/**
+ * Fields of the FTP credential type
+ */
+export interface FtpCredentials {
+	username?: string;
+	password?: string;
+}
+
+/**
+ * Connection settings and remote path of an ftp:// or ftps:// URL
+ */
+export interface FtpLocation {
+	access: AccessOptions;
+	path: string;
+	/** URL without user and password, for messages and output */
+	displayUrl: string;
+}
+
+/**
+ * Result of writing a remote file
+ */
+export interface FtpWriteResult {
+	path: string;
+	bytesWritten: number;
+}
+
+/**
+ * Timeout of control and data connections when the node has no timeout configured
+ */
+const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * Check whether a URL points to an FTP or FTPS server
+ */
+export function isFtpUrl(url: string): boolean {
+	return /^ftps?:/i.test(url.trim());
+}
+
+/**
+ * Build connection settings and the remote path for an ftp:// or ftps:// URL
+ *
+ * @param url - ftp:// or ftps:// URL
+ * @param credentials - FTP credential, if one is selected
+ * @param tlsOptions - TLS settings used for ftps://
+ * @returns Connection settings, remote path and the URL without login data
+ * @throws TransferError if the URL is invalid or has no file path
+ */
+export function getFtpLocation(
+	url: string,
+	credentials: FtpCredentials | undefined,
+	tlsOptions: TlsOptions | undefined,
+): FtpLocation {
+	let parsed: URL;
+	try {
+		parsed = new URL(url.trim());
+	} catch {
+		throw new TransferError(`Invalid FTP URL ${url}`, { code: 'ERR_INVALID_URL' });
+	}
+
+	const pathname = decodeURIComponent(parsed.pathname);
+	const remotePath = pathname.startsWith('/~/') ? pathname.slice(3) : pathname;
+	if (!parsed.hostname || remotePath === '' || remotePath.endsWith('/')) {
+		throw new TransferError(`FTP URL ${parsed.host}${parsed.pathname} must contain a host and a file path`, {
+			code: 'ERR_INVALID_URL',
+		});
+	}
+
+	const secure = parsed.protocol.toLowerCase() === 'ftps:';
+	const access: AccessOptions = {
+		host: parsed.hostname.replace(/^\[|\]$/g, ''),
+		port: parsed.port ? parseInt(parsed.port, 10) : 21,
+		user: credentials?.username || decodeURIComponent(parsed.username) || undefined,
+		password: credentials?.password || decodeURIComponent(parsed.password) || undefined,
+		secure,
+		// basic-ftp adds the host to the TLS options, so it gets its own copy
+		...(secure && tlsOptions ? { secureOptions: { ...tlsOptions } } : {}),
+	};
+
+	parsed.username = '';
+	parsed.password = '';
+	return { access, path: remotePath, displayUrl: parsed.toString() };
+}
+
+/**
+ * Convert a basic-ftp error into a TransferError with a code the retry logic understands
+ *
+ * Network errors keep their code (ECONNRESET, ...). FTP replies are mapped: 530 is a failed
+ * login, 550 a missing file, 421/425/426 a dropped connection that is worth retrying; other
+ * replies get the code FTP_<reply code>.
+ *
+ * @param error - Error from the control or data connection
+ * @param context - What was being done, prefixed to the message
+ * @returns TransferError
+ */
+export function getFtpError(error: Error & { code?: unknown }, context: string): TransferError {
+	let code: string | undefined;
+	if (error instanceof FTPError) {
+		if (error.code === 530) {
+			code = 'FTP_AUTH_FAILED';
+		} else if (error.code === 550) {
+			code = 'ENOENT';
+		} else if ([421, 425, 426].includes(error.code)) {
+			code = 'ECONNRESET';
+		} else {
+			code = `FTP_${error.code}`;
+		}
+	} else if (typeof error.code === 'string') {
+		code = error.code;
+	} else if (/^Timeout/.test(error.message)) {
+		code = 'ETIMEDOUT';
+	}
+	return new TransferError(`${context}: ${error.message}`, { code });
+}
+
+/**
+ * Connect and log in to the FTP server
+ *
+ * @param location - Location returned by getFtpLocation
+ * @param timeout - Timeout in milliseconds (0 = default of 30 seconds)
+ * @param hostPolicy - Hosts the connection may go to, if restricted
+ * @returns Logged-in client
+ * @throws TransferError if the host is not allowed or the connection, TLS upgrade or login fails
+ */
+async function connect(location: FtpLocation, timeout: number, hostPolicy: HostPolicy | undefined): Promise<Client> {
+	let access = location.access;
+	if (hostPolicy) {
+		const hostname = access.host ?? '';
+		access = {
+			...access,
+			host: await resolveAllowedHost(hostPolicy, hostname),
+			// The certificate is still verified against the host name
+			...(access.secure && !isIP(hostname) ? { secureOptions: { ...access.secureOptions, servername: hostname } } : {}),
+		};
+	}
+
+	const client = new Client(timeout > 0 ? timeout : DEFAULT_TIMEOUT);
+	try {
+		await client.access(access);
+		return client;
+	} catch (error) {
+		client.close();
+		throw getFtpError(error as Error, `FTP connection to ${location.access.host}:${location.access.port} failed`);
+	}
+}
+
+/**
+ * Open a remote file as download
+ *
+ * The result looks like an HTTP response, with the SIZE reply as Content-Length. The file is
+ * read with RETR; the connection is closed when the transfer ends or the stream is destroyed.
+ * The stream only ends after the server confirmed the transfer, so a broken data connection
+ * never looks like a complete file.
+ *
+ * @param url - ftp:// or ftps:// URL
+ * @param credentials - FTP credential, if one is selected
+ * @param tlsOptions - TLS settings used for ftps://
+ * @param timeout - Timeout in milliseconds (0 = default)
+ * @param hostPolicy - Hosts the connection may go to, if restricted
+ * @returns Download response with the file stream
+ * @throws TransferError if the host is not allowed, the connection fails or the file does not exist
+ */
+export async function openFtpDownload(
+	url: string,
+	credentials: FtpCredentials | undefined,
+	tlsOptions: TlsOptions | undefined,
+	timeout: number,
+	hostPolicy?: HostPolicy,
+): Promise<DownloadResponse> {
+	const location = getFtpLocation(url, credentials, tlsOptions);
+	const client = await connect(location, timeout, hostPolicy);
+
+	const headers: Record<string, string> = {};
+	try {
+		headers['content-length'] = String(await client.size(location.path));
+	} catch (error) {
+		// Servers without SIZE answer 500/502; a missing file is 550
+		if (error instanceof FTPError && error.code === 550) {
+			client.close();
+			throw getFtpError(error, `Cannot read ${location.displayUrl}`);
+		}
+		if (client.closed) {
+			throw getFtpError(error as Error, `FTP download from ${location.displayUrl} failed`);
+		}
+	}
+
+	// basic-ftp ends its destination also when the transfer fails, so the data is forwarded to
+	// the returned stream and its end is decided by the outcome of RETR
+	const stream = new PassThrough();
+	const sink = new Writable({
+		write(chunk: Buffer, _encoding, callback) {
+			if (stream.destroyed || stream.write(chunk)) {
+				callback();
+			} else {
+				stream.once('drain', () => callback());
+			}
+		},
+	});
+	stream.once('close', () => client.close());
+	client.downloadTo(sink, location.path).then(
+		() => stream.end(),
+		(error: Error) => stream.destroy(getFtpError(error, `FTP download from ${location.displayUrl} failed`)),
+	);
+
+	return {
+		stream,
+		statusCode: 200,
+		headers,
+		finalUrl: location.displayUrl,
+		redirects: [],
+		requestHeaders: {},
+	};
+}
+
+/**
+ * Write a stream to a remote file with STOR
+ *
+ * @param body - Data to write
+ * @param url - ftp:// or ftps:// URL of the target file
+ * @param credentials - FTP credential, if one is selected
+ * @param tlsOptions - TLS settings used for ftps://
+ * @param options - Whether missing directories are created, the timeout in milliseconds and the
+ *   hosts the connection may go to
+ * @returns Remote path and number of bytes written
+ * @throws TransferError if the host is not allowed or the connection or the upload fails; download
+ *   errors are passed on unchanged
+ */
+export async function writeFtpFile(
+	body: Readable,
+	url: string,
+	credentials: FtpCredentials | undefined,
+	tlsOptions: TlsOptions | undefined,
+	options: { createDirectories: boolean; timeout: number; hostPolicy?: HostPolicy },
+): Promise<FtpWriteResult> {
+	const location = getFtpLocation(url, credentials, tlsOptions);
+	let client: Client | undefined;
+
+	try {
+		client = await connect(location, options.timeout, options.hostPolicy);
+
+		// ensureDir() leaves the client in the created directory, so the file name is enough
+		let targetPath = location.path;
+		const directory = path.posix.dirname(location.path);
+		if (options.createDirectories && directory !== '.' && directory !== '/') {
+			try {
+				await client.ensureDir(directory);
+			} catch (error) {
+				throw getFtpError(error as Error, `Cannot create the directory of ${location.displayUrl}`);
+			}
+			targetPath = path.posix.basename(location.path);
+		}
+
+		const counter = new CountingStream();
+		let bodyError: Error | undefined;
+		counter.once('error', (error: Error) => {
+			bodyError = error;
+		});
+		pipeline(body, counter, () => {
+			// Errors are propagated to the counter by pipeline()
+		});
+
+		try {
+			await client.uploadFrom(counter, targetPath);
+		} catch (error) {
+			// basic-ftp may report a failed download as a closed connection, so the download error
+			// is passed on unchanged for the retry decision
+			if (bodyError !== undefined) {
+				throw bodyError;
+			}
+			throw getFtpError(error as Error, `Writing ${location.displayUrl} failed`);
+		}
+		return { path: location.path, bytesWritten: counter.bytes };
+	} catch (error) {
+		body.destroy();
+		throw error;
+	} finally {
+		client?.close();
+	}
+}
@@ -0,0 +1,225 @@
+/**
+ * Resumable Download Stream
+ *
+ * Wraps a download response in a Readable that survives mid-transfer connection failures.
+ *
+ * When the source advertises `Accept-Ranges: bytes`, a failed response is replaced by a new
+ * request with `Range: bytes=<delivered>-` and the new body is spliced into the same stream.
+ * The consumer (the upload request body) never notices the reconnect.
+ *
+ * Safety checks on every reconnect:
+ * - The server must answer 206 with a Content-Range starting at the delivered byte count
+ * - ETag and Last-Modified must match the original response, otherwise the file changed
+ *   between attempts and the transfer fails instead of producing a corrupted upload
+ *
+ * @module transport/resume
+ */
+
+import { Readable } from 'stream';
+import type * as http from 'http';
+import type { DownloadResponse } from './download';
+
+/**
+ * Options controlling how an interrupted download is resumed
+ */
+export interface ResumeOptions {
+	/** Maximum number of reconnects before the stream fails */
+	maxResumes: number;
+	/** Delay in milliseconds before each reconnect */
+	resumeDelay: number;
+	/** Headers sent with every reconnect (Range and If-Range are added automatically) */
+	headers: Record<string, string>;
+	/** Opens a new download request with the given headers */
+	reopen: (headers: Record<string, string>) => Promise<DownloadResponse>;
+}
+
+/**
+ * Validators identifying the version of the source file
+ */
+interface SourceValidators {
+	etag?: string;
+	lastModified?: string;
+}
+
+/**
+ * Check whether a download response can be resumed with Range requests
+ *
+ * @param headers - Download response headers
+ * @returns True if the source advertises byte ranges
+ */
+export function supportsRangeRequests(headers: http.IncomingHttpHeaders): boolean {
+	const acceptRanges = headers['accept-ranges'];
+	return typeof acceptRanges === 'string' && acceptRanges.toLowerCase().includes('bytes');
+}
+
+/**
+ * Parse the first byte position from a Content-Range header
+ *
+ * @param contentRange - Header value, e.g. "bytes 100-199/200"
+ * @returns The start position, or null if the header is missing or malformed
+ */
+export function parseContentRangeStart(contentRange: string | undefined): number | null {
+	if (!contentRange) {
+		return null;
+	}
+	const match = /^bytes\s+(\d+)-\d+\/(\d+|\*)$/i.exec(contentRange.trim());
+	return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Extract ETag and Last-Modified from response headers
+ */
+function getValidators(headers: http.IncomingHttpHeaders): SourceValidators {
+	return {
+		etag: typeof headers.etag === 'string' ? headers.etag : undefined,
+		lastModified: headers['last-modified'],
+	};
+}
+
+/**
+ * Readable stream that transparently resumes an interrupted download
+ */
+export class ResumableDownloadStream extends Readable {
+	/** Number of body bytes delivered to the consumer so far */
+	bytesDelivered = 0;
+
+	/** Number of successful or attempted reconnects */
+	resumeCount = 0;
+
+	private source!: Readable;
+
+	private readonly validators: SourceValidators;
+
+	constructor(
+		initial: DownloadResponse,
+		private readonly options: ResumeOptions,
+	) {
+		super();
+		this.validators = getValidators(initial.headers);
+		this.attach(initial.stream);
+	}
+
+	_read(): void {
+		// Resume the source after backpressure paused it
+		this.source.resume();
+	}
+
+	_destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+		this.source.destroy();
+		callback(error);
+	}
+
+	/**
+	 * Start forwarding data from a response body
+	 */
+	private attach(source: Readable): void {
+		this.source = source;
+		let settled = false;
+
+		source.on('data', (chunk: Buffer) => {
+			this.bytesDelivered += chunk.length;
+			if (!this.push(chunk)) {
+				source.pause();
+			}
+		});
+		source.once('end', () => {
+			settled = true;
+			this.push(null);
+		});
+
+		// A reset socket may surface as 'error', 'aborted' or a bare 'close' - handle the first one
+		const onFailure = (error?: Error) => {
+			if (settled || this.destroyed) {
+				return;
+			}
+			settled = true;
+			void this.recover(error ?? new Error('connection closed before the response was complete'));
+		};
+		source.on('error', onFailure);
+		source.once('aborted', () => onFailure());
+		source.once('close', () => onFailure());
+	}
+
+	/**
+	 * Reconnect with a Range request and continue from the last delivered byte
+	 */
+	private async recover(cause: Error): Promise<void> {
+		if (this.resumeCount >= this.options.maxResumes) {
+			this.destroy(
+				new Error(
+					`Download interrupted after ${this.bytesDelivered} bytes and could not be resumed after ${this.resumeCount} attempt(s): ${cause.message}`,
+				),
+			);
+			return;
+		}
+		this.resumeCount++;
+
+		if (this.options.resumeDelay > 0) {
+			await new Promise((resolve) => setTimeout(resolve, this.options.resumeDelay * this.resumeCount));
+		}
+		if (this.destroyed) {
+			return;
+		}
+
+		const headers: Record<string, string> = {
+			...this.options.headers,
+			Range: `bytes=${this.bytesDelivered}-`,
+		};
+		// If-Range only accepts strong ETags; fall back to Last-Modified
+		const ifRange =
+			this.validators.etag && !this.validators.etag.startsWith('W/')
+				? this.validators.etag
+				: this.validators.lastModified;
+		if (ifRange) {
+			headers['If-Range'] = ifRange;
+		}
+
+		let response: DownloadResponse;
+		try {
+			response = await this.options.reopen(headers);
+		} catch (error) {
+			// The source may still be unreachable - count it and try again
+			void this.recover(error instanceof Error ? error : new Error(String(error)));
+			return;
+		}
+
+		const failure = this.validateResumeResponse(response);
+		if (failure) {
+			response.stream.destroy();
+			this.destroy(new Error(`Download could not be resumed at byte ${this.bytesDelivered}: ${failure}`));
+			return;
+		}
+
+		this.attach(response.stream);
+	}
+
+	/**
+	 * Verify that a reconnect response continues the same file at the right offset
+	 *
+	 * @returns A failure reason, or null if the response can be spliced in
+	 */
+	private validateResumeResponse(response: DownloadResponse): string | null {
+		if (response.statusCode !== 206) {
+			return `source answered HTTP ${response.statusCode} instead of 206 Partial Content (the file may have changed)`;
+		}
+
+		const start = parseContentRangeStart(response.headers['content-range'] as string | undefined);
+		if (start !== this.bytesDelivered) {
+			return `unexpected Content-Range "${response.headers['content-range'] ?? ''}"`;
+		}
+
+		const current = getValidators(response.headers);
+		if (this.validators.etag && current.etag && this.validators.etag !== current.etag) {
+			return `ETag changed from ${this.validators.etag} to ${current.etag}`;
+		}
+		if (
+			this.validators.lastModified &&
+			current.lastModified &&
+			this.validators.lastModified !== current.lastModified
+		) {
+			return `Last-Modified changed from ${this.validators.lastModified} to ${current.lastModified}`;
+		}
+
+		return null;
+	}
+}
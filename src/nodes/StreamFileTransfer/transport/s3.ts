@@ -0,0 +1,418 @@
+/**
+ * S3 Multipart Upload Transport
+ *
+ * Uploads a stream to S3-compatible storage (AWS S3, MinIO, Cloudflare R2, ...) using the
+ * multipart upload API, which is required for objects larger than 5 GB.
+ *
+ * Process:
+ * 1. CreateMultipartUpload returns an upload ID
+ * 2. The stream is sliced into parts of a fixed size, which are uploaded with bounded concurrency
+ * 3. CompleteMultipartUpload assembles the object from the part ETags
+ * 4. On any failure, AbortMultipartUpload discards the uploaded parts
+ *
+ * Requests are signed with AWS Signature Version 4. Each part has to be held in memory while
+ * it is uploaded (S3 needs its length up front), so memory usage is about
+ * partSize * (concurrency + 1) regardless of the object size.
+ *
+ * The HTTP requests themselves are sent through an injected function so the operation can
+ * route them through n8n's request helper.
+ *
+ * @module transport/s3
+ */
+
+import { createHash, createHmac } from 'crypto';
+import type { Readable } from 'stream';
+import { URL } from 'url';
+import { TransferError } from '../GenericFunctions';
+
+/**
+ * Minimum part size accepted by S3 for all parts except the last one
+ */
+export const S3_MIN_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Maximum number of parts in one multipart upload
+ */
+const S3_MAX_PARTS = 10000;
+
+/**
+ * Credentials and endpoint of an S3-compatible service
+ */
+export interface S3Credentials {
+	/** Service endpoint, e.g. https://s3.eu-west-1.amazonaws.com or http://localhost:9000 */
+	endpoint: string;
+	region: string;
+	accessKeyId: string;
+	secretAccessKey: string;
+	sessionToken?: string;
+	/** Whether the bucket is part of the path instead of the host name (needed for MinIO) */
+	forcePathStyle: boolean;
+}
+
+/**
+ * Request passed to the HTTP send function
+ */
+export interface S3HttpRequest {
+	method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+	url: string;
+	headers: Record<string, string>;
+	body?: Buffer;
+}
+
+/**
+ * Response returned by the HTTP send function
+ */
+export interface S3HttpResponse {
+	statusCode: number;
+	headers: Record<string, string | string[] | undefined>;
+	body: string;
+}
+
+export type S3SendFunction = (request: S3HttpRequest) => Promise<S3HttpResponse>;
+
+/**
+ * Options for a multipart upload
+ */
+export interface S3UploadOptions {
+	bucket: string;
+	key: string;
+	/** Size of each part in bytes (at least 5 MiB) */
+	partSize: number;
+	/** Maximum number of parts uploaded in parallel */
+	concurrency: number;
+	/** Extra headers sent with CreateMultipartUpload (Content-Type, x-amz-meta-*, x-amz-acl, ...) */
+	headers: Record<string, string>;
+}
+
+/**
+ * Result of a completed multipart upload
+ */
+export interface S3UploadResult {
+	bucket: string;
+	key: string;
+	uploadId: string;
+	location: string;
+	etag: string;
+	parts: number;
+	size: number;
+}
+
+/**
+ * Encode a string per RFC 3986 as required by SigV4
+ */
+function uriEncode(value: string, encodeSlash = true): string {
+	return encodeURIComponent(value)
+		.replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+		.replace(/%2F/g, encodeSlash ? '%2F' : '/');
+}
+
+function sha256Hex(data: string | Buffer): string {
+	return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+	return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Sign a request with AWS Signature Version 4
+ *
+ * All headers of the request are signed, together with the host header.
+ *
+ * @param request - Request to sign (headers are not modified)
+ * @param credentials - Access keys and region
+ * @param date - Signing time (for testing)
+ * @returns Headers including Authorization, x-amz-date and x-amz-content-sha256
+ */
+export function signRequest(
+	request: S3HttpRequest,
+	credentials: Pick<S3Credentials, 'region' | 'accessKeyId' | 'secretAccessKey' | 'sessionToken'>,
+	date = new Date(),
+): Record<string, string> {
+	const url = new URL(request.url);
+	const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+	const dateStamp = amzDate.slice(0, 8);
+	const payloadHash = sha256Hex(request.body ?? '');
+
+	const headers: Record<string, string> = {
+		...request.headers,
+		'x-amz-content-sha256': payloadHash,
+		'x-amz-date': amzDate,
+	};
+	if (credentials.sessionToken) {
+		headers['x-amz-security-token'] = credentials.sessionToken;
+	}
+
+	const canonicalHeaderEntries = [
+		['host', url.host],
+		...Object.entries(headers).map(([key, value]) => [key.toLowerCase(), String(value).trim().replace(/\s+/g, ' ')]),
+	].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+	const signedHeaders = canonicalHeaderEntries.map(([key]) => key).join(';');
+
+	const canonicalQuery = [...url.searchParams.entries()]
+		.map(([key, value]) => [uriEncode(key), uriEncode(value)])
+		.sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+		.map(([key, value]) => `${key}=${value}`)
+		.join('&');
+
+	const canonicalRequest = [
+		request.method,
+		// The path is already encoded by buildObjectUrl(); S3 must not be double-encoded
+		url.pathname,
+		canonicalQuery,
+		canonicalHeaderEntries.map(([key, value]) => `${key}:${value}\n`).join(''),
+		signedHeaders,
+		payloadHash,
+	].join('\n');
+
+	const scope = `${dateStamp}/${credentials.region}/s3/aws4_request`;
+	const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+	const signingKey = hmac(
+		hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), credentials.region), 's3'),
+		'aws4_request',
+	);
+	const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+	headers.Authorization =
+		`AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+		`SignedHeaders=${signedHeaders}, Signature=${signature}`;
+	return headers;
+}
+
+/**
+ * Build the URL of an object
+ *
+ * @param credentials - Endpoint configuration
+ * @param bucket - Bucket name
+ * @param key - Object key (may contain slashes)
+ * @returns Object URL in path style or virtual-hosted style
+ */
+export function buildObjectUrl(credentials: S3Credentials, bucket: string, key: string): string {
+	const endpoint = new URL(credentials.endpoint || `https://s3.${credentials.region}.amazonaws.com`);
+	const encodedKey = uriEncode(key.replace(/^\/+/, ''), false);
+	const basePath = endpoint.pathname.replace(/\/+$/, '');
+
+	if (credentials.forcePathStyle) {
+		return `${endpoint.protocol}//${endpoint.host}${basePath}/${uriEncode(bucket)}/${encodedKey}`;
+	}
+	return `${endpoint.protocol}//${bucket}.${endpoint.host}${basePath}/${encodedKey}`;
+}
+
+/**
+ * Read the text content of the first occurrence of an XML element
+ */
+function getXmlValue(xml: string, element: string): string | undefined {
+	const match = new RegExp(`<${element}>([\\s\\S]*?)</${element}>`).exec(xml);
+	return match ? match[1] : undefined;
+}
+
+/**
+ * Escape text for use inside an XML element
+ */
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+/**
+ * Multipart upload client for one object
+ */
+export class S3MultipartUpload {
+	private readonly objectUrl: string;
+
+	constructor(
+		private readonly credentials: S3Credentials,
+		private readonly options: S3UploadOptions,
+		private readonly send: S3SendFunction,
+	) {
+		this.objectUrl = buildObjectUrl(credentials, options.bucket, options.key);
+	}
+
+	/**
+	 * Upload the whole stream as one object
+	 *
+	 * @param source - Data to upload
+	 * @returns Details of the created object
+	 * @throws TransferError if any request fails (the multipart upload is aborted first)
+	 */
+	async upload(source: Readable): Promise<S3UploadResult> {
+		const uploadId = await this.create();
+
+		try {
+			const { etags, size } = await this.uploadParts(source, uploadId);
+			const completeResponse = await this.complete(uploadId, etags);
+			return {
+				bucket: this.options.bucket,
+				key: this.options.key,
+				uploadId,
+				location: getXmlValue(completeResponse, 'Location') ?? this.objectUrl,
+				etag: (getXmlValue(completeResponse, 'ETag') ?? '').replace(/&quot;/g, '"'),
+				parts: etags.length,
+				size,
+			};
+		} catch (error) {
+			source.destroy();
+			await this.abort(uploadId);
+			throw error;
+		}
+	}
+
+	/**
+	 * Send a signed request and fail on non-2xx responses
+	 */
+	private async request(
+		method: S3HttpRequest['method'],
+		query: string,
+		headers: Record<string, string>,
+		body?: Buffer,
+	): Promise<S3HttpResponse> {
+		const url = `${this.objectUrl}?${query}`;
+		const signedHeaders = signRequest({ method, url, headers, body }, this.credentials);
+		const response = await this.send({ method, url, headers: signedHeaders, body });
+
+		// CompleteMultipartUpload can fail with an error document despite a 200 status
+		const errorCode = getXmlValue(response.body, 'Code');
+		if (response.statusCode < 200 || response.statusCode >= 300 || (errorCode && response.body.includes('<Error>'))) {
+			const message = getXmlValue(response.body, 'Message') ?? response.body.slice(0, 200);
+			throw new TransferError(
+				`S3 request ${method} ${query.split('&')[0]} failed with HTTP ${response.statusCode}${errorCode ? ` (${errorCode})` : ''}: ${message}`,
+				{ statusCode: response.statusCode, code: errorCode, headers: response.headers },
+			);
+		}
+		return response;
+	}
+
+	private async create(): Promise<string> {
+		const response = await this.request('POST', 'uploads=', this.options.headers);
+		const uploadId = getXmlValue(response.body, 'UploadId');
+		if (!uploadId) {
+			throw new TransferError('S3 CreateMultipartUpload response did not contain an UploadId');
+		}
+		return uploadId;
+	}
+
+	/**
+	 * Slice the stream into parts and upload them with bounded concurrency
+	 *
+	 * Reading pauses while the maximum number of parts is in flight, so the source is
+	 * only consumed as fast as the parts can be uploaded.
+	 */
+	private async uploadParts(source: Readable, uploadId: string): Promise<{ etags: string[]; size: number }> {
+		const etags: string[] = [];
+		const inFlight = new Set<Promise<void>>();
+		let failure: unknown;
+		let partNumber = 0;
+		let size = 0;
+		let buffered: Buffer[] = [];
+		let bufferedLength = 0;
+
+		const startPart = async (data: Buffer) => {
+			partNumber++;
+			if (partNumber > S3_MAX_PARTS) {
+				throw new TransferError(
+					`S3 multipart upload exceeds ${S3_MAX_PARTS} parts. Increase the part size.`,
+				);
+			}
+			const currentPart = partNumber;
+			const task = this.uploadPart(uploadId, currentPart, data)
+				.then((etag) => {
+					etags[currentPart - 1] = etag;
+				})
+				.catch((error) => {
+					failure = failure ?? error;
+				})
+				.finally(() => {
+					inFlight.delete(task);
+				});
+			inFlight.add(task);
+
+			// Wait for a free slot before reading more data
+			while (inFlight.size >= this.options.concurrency) {
+				await Promise.race(inFlight);
+			}
+			if (failure) {
+				throw failure;
+			}
+		};
+
+		try {
+			for await (const chunk of source) {
+				const data = chunk as Buffer;
+				size += data.length;
+				buffered.push(data);
+				bufferedLength += data.length;
+
+				while (bufferedLength >= this.options.partSize) {
+					const all = Buffer.concat(buffered, bufferedLength);
+					await startPart(all.subarray(0, this.options.partSize));
+					// Copy the remainder so the full buffer can be released once the part is uploaded
+					const rest = Buffer.from(all.subarray(this.options.partSize));
+					buffered = rest.length > 0 ? [rest] : [];
+					bufferedLength = rest.length;
+				}
+			}
+
+			// The last part may be smaller than the part size; an empty object still needs one part
+			if (bufferedLength > 0 || partNumber === 0) {
+				await startPart(Buffer.concat(buffered, bufferedLength));
+			}
+		} catch (error) {
+			// Let running part uploads settle before the caller aborts the upload
+			await Promise.all(inFlight);
+			throw error;
+		}
+
+		await Promise.all(inFlight);
+		if (failure) {
+			throw failure;
+		}
+		return { etags, size };
+	}
+
+	private async uploadPart(uploadId: string, partNumber: number, data: Buffer): Promise<string> {
+		const response = await this.request(
+			'PUT',
+			`partNumber=${partNumber}&uploadId=${encodeURIComponent(uploadId)}`,
+			{ 'Content-Length': String(data.length) },
+			data,
+		);
+		const etag = response.headers.etag;
+		if (typeof etag !== 'string' || etag === '') {
+			throw new TransferError(`S3 UploadPart ${partNumber} response did not contain an ETag`);
+		}
+		return etag;
+	}
+
+	private async complete(uploadId: string, etags: string[]): Promise<string> {
+		const body = Buffer.from(
+			'<CompleteMultipartUpload>' +
+				etags
+					.map((etag, index) => `<Part><PartNumber>${index + 1}</PartNumber><ETag>${escapeXml(etag)}</ETag></Part>`)
+					.join('') +
+				'</CompleteMultipartUpload>',
+			'utf8',
+		);
+		const response = await this.request(
+			'POST',
+			`uploadId=${encodeURIComponent(uploadId)}`,
+			{ 'Content-Type': 'application/xml', 'Content-Length': String(body.length) },
+			body,
+		);
+		return response.body;
+	}
+
+	/**
+	 * Abort the multipart upload so S3 discards the uploaded parts (best effort)
+	 */
+	private async abort(uploadId: string): Promise<void> {
+		try {
+			await this.request('DELETE', `uploadId=${encodeURIComponent(uploadId)}`, {});
+		} catch {
+			// The original error is more relevant than a failed cleanup
+		}
+	}
+}
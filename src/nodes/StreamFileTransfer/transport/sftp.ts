@@ -0,0 +1,360 @@
+/**
+ * SFTP Transport
+ *
+ * Reads and writes sftp:// URLs over SSH with the ssh2 library, so an SFTP server can be the
+ * source or the destination of a transfer. Both directions are streamed: the download is an
+ * SFTP read stream and the upload body is piped into an SFTP write stream.
+ *
+ * URL format: sftp://[user[:password]@]host[:port]/path/to/file
+ * - The path is absolute; paths starting with /~/ are relative to the login directory
+ * - Login data from the SFTP credential takes precedence over user and password in the URL
+ * - One connection is opened per file and closed when the stream ends or fails
+ * - With a host policy, the host is resolved and checked once and the connection goes to the
+ *   checked address
+ *
+ * @module transport/sftp
+ */
+
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { pipeline, type Readable, type Writable } from 'stream';
+import { URL } from 'url';
+import { Client, utils, type ConnectConfig, type SFTPWrapper, type Stats } from 'ssh2';
+import { TransferError } from '../GenericFunctions';
+import { resolveAllowedHost, type HostPolicy } from '../utils/hostPolicy';
+import { CountingStream } from '../utils/streams';
+import { normalizePem } from '../utils/tls';
+import type { DownloadResponse } from './download';
+
+/**
+ * Fields of the SFTP credential type
+ */
+export interface SftpCredentials {
+	username?: string;
+	authMethod?: 'password' | 'privateKey';
+	password?: string;
+	privateKey?: string;
+	passphrase?: string;
+	/** SHA256 fingerprint of the expected server host key */
+	hostKeyFingerprint?: string;
+}
+
+/**
+ * Connection settings and remote path of an sftp:// URL
+ */
+export interface SftpLocation {
+	config: ConnectConfig;
+	path: string;
+	/** URL without user and password, for messages and output */
+	displayUrl: string;
+}
+
+/**
+ * Result of writing a remote file
+ */
+export interface SftpWriteResult {
+	path: string;
+	bytesWritten: number;
+}
+
+/**
+ * SSH handshake timeout used when the node has no timeout configured
+ */
+const DEFAULT_READY_TIMEOUT = 20000;
+
+/**
+ * Check whether a URL points to an SFTP server
+ */
+export function isSftpUrl(url: string): boolean {
+	return /^sftp:/i.test(url.trim());
+}
+
+/**
+ * Format a host key as an OpenSSH SHA256 fingerprint (without the "SHA256:" prefix)
+ */
+function getHostKeyFingerprint(key: Buffer): string {
+	return createHash('sha256').update(key).digest('base64').replace(/=+$/, '');
+}
+
+/**
+ * Build connection settings and the remote path for an sftp:// URL
+ *
+ * @param url - sftp:// URL
+ * @param credentials - SFTP credential, if one is selected
+ * @param timeout - Handshake timeout in milliseconds (0 = default of 20 seconds)
+ * @returns Connection settings, remote path and the URL without login data
+ * @throws TransferError if the URL is invalid or has no file path
+ */
+export function getSftpLocation(
+	url: string,
+	credentials: SftpCredentials | undefined,
+	timeout: number,
+): SftpLocation {
+	let parsed: URL;
+	try {
+		parsed = new URL(url.trim());
+	} catch {
+		throw new TransferError(`Invalid SFTP URL ${url}`, { code: 'ERR_INVALID_URL' });
+	}
+
+	const pathname = decodeURIComponent(parsed.pathname);
+	const remotePath = pathname.startsWith('/~/') ? pathname.slice(3) : pathname;
+	if (!parsed.hostname || remotePath === '' || remotePath.endsWith('/')) {
+		throw new TransferError(`SFTP URL ${parsed.host}${parsed.pathname} must contain a host and a file path`, {
+			code: 'ERR_INVALID_URL',
+		});
+	}
+
+	const config: ConnectConfig = {
+		host: parsed.hostname.replace(/^\[|\]$/g, ''),
+		port: parsed.port ? parseInt(parsed.port, 10) : 22,
+		username: credentials?.username || decodeURIComponent(parsed.username),
+		readyTimeout: timeout > 0 ? timeout : DEFAULT_READY_TIMEOUT,
+	};
+	if (credentials?.authMethod === 'privateKey') {
+		config.privateKey = normalizePem(credentials.privateKey);
+		if (credentials.passphrase) {
+			config.passphrase = credentials.passphrase;
+		}
+	} else {
+		config.password = credentials?.password || decodeURIComponent(parsed.password) || undefined;
+	}
+
+	const expectedFingerprint = credentials?.hostKeyFingerprint?.trim().replace(/^SHA256:/i, '').replace(/=+$/, '');
+	if (expectedFingerprint) {
+		config.hostVerifier = (key: Buffer) => getHostKeyFingerprint(key) === expectedFingerprint;
+	}
+
+	parsed.username = '';
+	parsed.password = '';
+	return { config, path: remotePath, displayUrl: parsed.toString() };
+}
+
+/**
+ * Convert an ssh2 error into a TransferError with a code the retry logic understands
+ *
+ * Network errors keep their code (ECONNRESET, ...); SFTP status codes are mapped to the
+ * matching file system codes.
+ *
+ * @param error - Error from the SSH connection or the SFTP session
+ * @param context - What was being done, prefixed to the message
+ * @returns TransferError
+ */
+export function getSftpError(error: Error & { code?: unknown; level?: string }, context: string): TransferError {
+	let code: string | undefined;
+	if (typeof error.code === 'string') {
+		code = error.code;
+	} else if (error.code === utils.sftp.STATUS_CODE.NO_SUCH_FILE) {
+		code = 'ENOENT';
+	} else if (error.code === utils.sftp.STATUS_CODE.PERMISSION_DENIED) {
+		code = 'EACCES';
+	} else if (error.code === utils.sftp.STATUS_CODE.CONNECTION_LOST) {
+		code = 'ECONNRESET';
+	} else if (error.level === 'client-timeout') {
+		code = 'ETIMEDOUT';
+	} else if (error.level === 'client-authentication') {
+		code = 'SFTP_AUTH_FAILED';
+	} else if (/verification failed/i.test(error.message)) {
+		code = 'SFTP_HOST_KEY_MISMATCH';
+	}
+	return new TransferError(`${context}: ${error.message}`, { code });
+}
+
+/**
+ * Connect to the SSH server and open the SFTP subsystem
+ *
+ * @param location - Location returned by getSftpLocation
+ * @param hostPolicy - Hosts the connection may go to, if restricted
+ * @returns Connected client and SFTP session
+ * @throws TransferError if the host is not allowed or the connection, login or SFTP subsystem fails
+ */
+async function connect(
+	location: SftpLocation,
+	hostPolicy: HostPolicy | undefined,
+): Promise<{ client: Client; sftp: SFTPWrapper }> {
+	const host = `${location.config.host}:${location.config.port}`;
+	const config = hostPolicy
+		? { ...location.config, host: await resolveAllowedHost(hostPolicy, location.config.host ?? '') }
+		: location.config;
+	return new Promise((resolve, reject) => {
+		const client = new Client();
+		client.once('ready', () => {
+			client.sftp((error, sftp) => {
+				if (error) {
+					client.end();
+					reject(getSftpError(error, `SFTP subsystem on ${host} failed`));
+					return;
+				}
+				resolve({ client, sftp });
+			});
+		});
+		client.once('error', (error) => {
+			client.end();
+			reject(getSftpError(error, `SFTP connection to ${host} failed`));
+		});
+		client.connect(config);
+	});
+}
+
+/**
+ * Promisified SFTP stat
+ */
+function stat(sftp: SFTPWrapper, remotePath: string): Promise<Stats> {
+	return new Promise((resolve, reject) => {
+		sftp.stat(remotePath, (error, stats) => (error ? reject(error) : resolve(stats)));
+	});
+}
+
+/**
+ * Create a remote directory and its missing parents
+ *
+ * @param sftp - SFTP session
+ * @param directory - Remote directory
+ * @throws Error if a directory cannot be created or a path segment is a file
+ */
+async function makeDirectories(sftp: SFTPWrapper, directory: string): Promise<void> {
+	const missing: string[] = [];
+	let current = directory;
+	while (current !== '/' && current !== '.') {
+		try {
+			if (!(await stat(sftp, current)).isDirectory()) {
+				throw new TransferError(`${current} exists and is not a directory`, { code: 'ENOTDIR' });
+			}
+			break;
+		} catch (error) {
+			if ((error as { code?: unknown }).code !== utils.sftp.STATUS_CODE.NO_SUCH_FILE) {
+				throw error;
+			}
+			missing.unshift(current);
+			current = path.posix.dirname(current);
+		}
+	}
+
+	for (const dir of missing) {
+		await new Promise<void>((resolve, reject) => {
+			sftp.mkdir(dir, (error) => {
+				// Another transfer may have created it in the meantime
+				if (error) {
+					stat(sftp, dir).then((stats) => (stats.isDirectory() ? resolve() : reject(error)), () => reject(error));
+					return;
+				}
+				resolve();
+			});
+		});
+	}
+}
+
+/**
+ * Open a remote file as download
+ *
+ * The result looks like an HTTP response: Content-Length and Last-Modified are taken from
+ * the file attributes. The SSH connection is closed when the stream closes.
+ *
+ * @param url - sftp:// URL
+ * @param credentials - SFTP credential, if one is selected
+ * @param timeout - Handshake timeout in milliseconds (0 = default)
+ * @param hostPolicy - Hosts the connection may go to, if restricted
+ * @returns Download response with an SFTP read stream
+ * @throws TransferError if the host is not allowed, the connection fails or the file does not exist
+ */
+export async function openSftpDownload(
+	url: string,
+	credentials: SftpCredentials | undefined,
+	timeout: number,
+	hostPolicy?: HostPolicy,
+): Promise<DownloadResponse> {
+	const location = getSftpLocation(url, credentials, timeout);
+	const { client, sftp } = await connect(location, hostPolicy);
+
+	let stats: Stats;
+	try {
+		stats = await stat(sftp, location.path);
+	} catch (error) {
+		client.end();
+		throw getSftpError(error as Error, `Cannot read ${location.displayUrl}`);
+	}
+	if (!stats.isFile()) {
+		client.end();
+		throw new TransferError(`${location.displayUrl} is not a file`, { code: 'EISDIR' });
+	}
+
+	const stream = sftp.createReadStream(location.path);
+	stream.once('close', () => client.end());
+	client.on('error', (error) => stream.destroy(getSftpError(error, `SFTP download from ${location.displayUrl} failed`)));
+
+	return {
+		stream,
+		statusCode: 200,
+		headers: {
+			'content-length': String(stats.size),
+			'last-modified': new Date(stats.mtime * 1000).toUTCString(),
+		},
+		finalUrl: location.displayUrl,
+		redirects: [],
+		requestHeaders: {},
+	};
+}
+
+/**
+ * Write a stream to a remote file
+ *
+ * @param body - Data to write
+ * @param url - sftp:// URL of the target file
+ * @param credentials - SFTP credential, if one is selected
+ * @param options - Whether missing directories are created, the handshake timeout in milliseconds
+ *   and the hosts the connection may go to
+ * @returns Remote path and number of bytes written
+ * @throws TransferError if the host is not allowed or the connection or a write fails; download
+ *   errors are passed on unchanged
+ */
+export async function writeSftpFile(
+	body: Readable,
+	url: string,
+	credentials: SftpCredentials | undefined,
+	options: { createDirectories: boolean; timeout: number; hostPolicy?: HostPolicy },
+): Promise<SftpWriteResult> {
+	const location = getSftpLocation(url, credentials, options.timeout);
+	let client: Client | undefined;
+
+	try {
+		const connection = await connect(location, options.hostPolicy);
+		client = connection.client;
+		const { sftp } = connection;
+
+		if (options.createDirectories) {
+			try {
+				await makeDirectories(sftp, path.posix.dirname(location.path));
+			} catch (error) {
+				throw error instanceof TransferError
+					? error
+					: getSftpError(error as Error, `Cannot create the directory of ${location.displayUrl}`);
+			}
+		}
+
+		const counter = new CountingStream();
+		const output = sftp.createWriteStream(location.path);
+		let outputError: Error | undefined;
+		output.once('error', (error: Error) => {
+			outputError = error;
+		});
+		client.on('error', (error) => (output as Writable).destroy(getSftpError(error, `SFTP upload to ${location.displayUrl} failed`)));
+
+		try {
+			await new Promise<void>((resolve, reject) => {
+				pipeline(body, counter, output, (error) => (error ? reject(error) : resolve()));
+			});
+		} catch (error) {
+			// Download errors surface here too and are passed on unchanged for the retry decision
+			if (error === outputError && !(error instanceof TransferError)) {
+				throw getSftpError(error as Error, `Writing ${location.displayUrl} failed`);
+			}
+			throw error;
+		}
+		return { path: location.path, bytesWritten: counter.bytes };
+	} catch (error) {
+		body.destroy();
+		throw error;
+	} finally {
+		client?.end();
+	}
+}
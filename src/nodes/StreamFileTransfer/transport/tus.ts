@@ -0,0 +1,323 @@
+/**
+ * tus Resumable Upload Transport
+ *
+ * Uploads a stream to a server implementing the tus 1.0 resumable upload protocol
+ * (https://tus.io/protocols/resumable-upload).
+ *
+ * Process:
+ * 1. POST to the creation endpoint with Upload-Length (or Upload-Defer-Length when the size
+ *    is unknown) returns the upload URL in the Location header
+ * 2. The stream is sent in PATCH requests of a fixed chunk size, each carrying Upload-Offset
+ * 3. When a PATCH fails, a HEAD request asks the server how many bytes it stored and the
+ *    rest of the chunk is sent again from that offset
+ *
+ * The current chunk is held in memory so it can be re-sent after a failure, which keeps
+ * memory usage at about one chunk regardless of the file size.
+ *
+ * The HTTP requests themselves are sent through an injected function so the operation can
+ * route them through n8n's request helper.
+ *
+ * @module transport/tus
+ */
+
+import type { Readable } from 'stream';
+import { URL } from 'url';
+import { TransferError } from '../GenericFunctions';
+import { getAttemptFailure } from '../utils/retry';
+
+export const TUS_VERSION = '1.0.0';
+
+/**
+ * Status codes of a failed PATCH after which the offset is queried and the chunk resumed
+ */
+const RESUMABLE_STATUS_CODES = [409, 423, 429, 500, 502, 503, 504];
+
+/**
+ * Request passed to the HTTP send function
+ */
+export interface TusHttpRequest {
+	method: 'POST' | 'PATCH' | 'HEAD';
+	url: string;
+	headers: Record<string, string>;
+	body?: Buffer;
+}
+
+/**
+ * Response returned by the HTTP send function
+ */
+export interface TusHttpResponse {
+	statusCode: number;
+	headers: Record<string, string | string[] | undefined>;
+	body: string;
+}
+
+export type TusSendFunction = (request: TusHttpRequest) => Promise<TusHttpResponse>;
+
+/**
+ * Options for a tus upload
+ */
+export interface TusUploadOptions {
+	/** Creation endpoint the upload is created at */
+	endpoint: string;
+	/** Headers sent with every request (e.g. Authorization) */
+	headers: Record<string, string>;
+	/** Total size in bytes; when undefined the length is declared with the last chunk */
+	uploadLength?: number;
+	/** Size of each PATCH request body in bytes */
+	chunkSize: number;
+	/** Upload-Metadata entries (e.g. filename, filetype) */
+	metadata: Record<string, string>;
+	/** Maximum number of times a failed chunk is resumed before the upload fails */
+	maxResumes: number;
+	/** Delay in milliseconds before each resume (multiplied by the resume count) */
+	resumeDelay: number;
+}
+
+/**
+ * Result of a completed tus upload
+ */
+export interface TusUploadResult {
+	/** URL of the created upload resource */
+	uploadUrl: string;
+	/** Final Upload-Offset reported by the server */
+	offset: number;
+	/** Number of PATCH requests that were accepted */
+	chunks: number;
+	/** Number of times a failed chunk was resumed */
+	resumes: number;
+}
+
+/**
+ * Encode an Upload-Metadata header value
+ *
+ * @param metadata - Keys and values; empty values are skipped
+ * @returns Comma-separated "key base64(value)" pairs
+ */
+export function encodeMetadata(metadata: Record<string, string>): string {
+	return Object.entries(metadata)
+		.filter(([key, value]) => key !== '' && value !== '')
+		.map(([key, value]) => `${key} ${Buffer.from(value, 'utf8').toString('base64')}`)
+		.join(',');
+}
+
+/**
+ * Read the Upload-Offset header of a response
+ *
+ * @returns The offset, or null if the header is missing or malformed
+ */
+function getUploadOffset(response: TusHttpResponse): number | null {
+	const value = response.headers['upload-offset'];
+	if (typeof value !== 'string' || !/^\d+$/.test(value.trim())) {
+		return null;
+	}
+	return parseInt(value.trim(), 10);
+}
+
+/**
+ * Upload client for one tus upload
+ */
+export class TusUpload {
+	/** URL of the upload resource, known after creation */
+	uploadUrl: string | undefined;
+
+	/** Number of bytes the server confirmed */
+	offset = 0;
+
+	/** Number of times a failed chunk was resumed */
+	resumeCount = 0;
+
+	private chunks = 0;
+
+	constructor(
+		private readonly options: TusUploadOptions,
+		private readonly send: TusSendFunction,
+	) {}
+
+	/**
+	 * Upload the whole stream
+	 *
+	 * @param source - Data to upload
+	 * @returns Upload URL and final offset
+	 * @throws TransferError if a request fails and the chunk cannot be resumed
+	 */
+	async upload(source: Readable): Promise<TusUploadResult> {
+		try {
+			const uploadUrl = await this.create();
+
+			let buffered: Buffer[] = [];
+			let bufferedLength = 0;
+			let size = 0;
+			for await (const chunk of source) {
+				const data = chunk as Buffer;
+				size += data.length;
+				buffered.push(data);
+				bufferedLength += data.length;
+
+				// Keep at least one byte back so the last PATCH can declare a deferred length
+				while (bufferedLength > this.options.chunkSize) {
+					const all = Buffer.concat(buffered, bufferedLength);
+					await this.sendChunk(all.subarray(0, this.options.chunkSize));
+					const rest = Buffer.from(all.subarray(this.options.chunkSize));
+					buffered = [rest];
+					bufferedLength = rest.length;
+				}
+			}
+
+			// A known length of 0 completes the upload at creation; everything else needs a final PATCH
+			if (bufferedLength > 0 || this.options.uploadLength === undefined) {
+				await this.sendChunk(Buffer.concat(buffered, bufferedLength), size);
+			}
+
+			if (this.options.uploadLength !== undefined && this.offset !== this.options.uploadLength) {
+				throw new TransferError(
+					`tus upload incomplete: server offset is ${this.offset} but Upload-Length is ${this.options.uploadLength}`,
+				);
+			}
+
+			return { uploadUrl, offset: this.offset, chunks: this.chunks, resumes: this.resumeCount };
+		} catch (error) {
+			source.destroy();
+			throw error;
+		}
+	}
+
+	/**
+	 * Headers sent with every request
+	 */
+	private baseHeaders(): Record<string, string> {
+		return { ...this.options.headers, 'Tus-Resumable': TUS_VERSION };
+	}
+
+	/**
+	 * Create the upload resource and remember its URL
+	 */
+	private async create(): Promise<string> {
+		const headers = this.baseHeaders();
+		if (this.options.uploadLength !== undefined) {
+			headers['Upload-Length'] = String(this.options.uploadLength);
+		} else {
+			headers['Upload-Defer-Length'] = '1';
+		}
+		const metadata = encodeMetadata(this.options.metadata);
+		if (metadata) {
+			headers['Upload-Metadata'] = metadata;
+		}
+
+		const response = await this.send({ method: 'POST', url: this.options.endpoint, headers });
+		if (response.statusCode < 200 || response.statusCode >= 300) {
+			throw new TransferError(
+				`tus upload creation failed with HTTP ${response.statusCode} at ${this.options.endpoint}`,
+				{ statusCode: response.statusCode, headers: response.headers },
+			);
+		}
+
+		const location = response.headers.location;
+		if (typeof location !== 'string' || location === '') {
+			throw new TransferError('tus upload creation response did not contain a Location header');
+		}
+		this.uploadUrl = new URL(location, this.options.endpoint).toString();
+		return this.uploadUrl;
+	}
+
+	/**
+	 * Send one chunk, resuming from the server offset after failures
+	 *
+	 * @param data - Chunk data starting at the current offset
+	 * @param totalLength - Total upload size, declared with this chunk when the length was deferred
+	 */
+	private async sendChunk(data: Buffer, totalLength?: number): Promise<void> {
+		const chunkStart = this.offset;
+		const chunkEnd = chunkStart + data.length;
+
+		for (;;) {
+			const headers: Record<string, string> = {
+				...this.baseHeaders(),
+				'Upload-Offset': String(this.offset),
+				'Content-Type': 'application/offset+octet-stream',
+			};
+			if (totalLength !== undefined && this.options.uploadLength === undefined) {
+				headers['Upload-Length'] = String(totalLength);
+			}
+			const body = data.subarray(this.offset - chunkStart);
+			headers['Content-Length'] = String(body.length);
+
+			let response: TusHttpResponse | undefined;
+			let failure: unknown;
+			try {
+				response = await this.send({ method: 'PATCH', url: this.uploadUrl as string, headers, body });
+			} catch (error) {
+				failure = error;
+			}
+
+			const offset = response ? getUploadOffset(response) : null;
+			if (response && response.statusCode >= 200 && response.statusCode < 300 && offset !== null) {
+				if (offset < this.offset || offset > chunkEnd) {
+					throw new TransferError(
+						`tus server reported Upload-Offset ${offset} after a PATCH at offset ${this.offset} with ${body.length} bytes`,
+					);
+				}
+				this.offset = offset;
+				this.chunks++;
+				if (this.offset >= chunkEnd) {
+					return;
+				}
+				// The server stored only part of the body - send the rest
+				continue;
+			}
+
+			await this.resume(
+				failure ??
+					new TransferError(`tus PATCH at offset ${this.offset} failed with HTTP ${response?.statusCode}`, {
+						statusCode: response?.statusCode,
+						headers: response?.headers,
+					}),
+				chunkStart,
+				chunkEnd,
+			);
+			// The whole chunk arrived before the connection failed
+			if (this.offset >= chunkEnd && data.length > 0) {
+				return;
+			}
+		}
+	}
+
+	/**
+	 * Ask the server for the current offset after a failed PATCH
+	 *
+	 * @throws The original failure if it is not resumable or the resume limit is reached
+	 */
+	private async resume(failure: unknown, chunkStart: number, chunkEnd: number): Promise<void> {
+		const { statusCode } = getAttemptFailure(failure);
+		if (
+			(statusCode !== undefined && !RESUMABLE_STATUS_CODES.includes(statusCode)) ||
+			this.resumeCount >= this.options.maxResumes
+		) {
+			throw failure;
+		}
+		this.resumeCount++;
+
+		if (this.options.resumeDelay > 0) {
+			await new Promise((resolve) => setTimeout(resolve, this.options.resumeDelay * this.resumeCount));
+		}
+
+		const response = await this.send({
+			method: 'HEAD',
+			url: this.uploadUrl as string,
+			headers: this.baseHeaders(),
+		});
+		const offset = getUploadOffset(response);
+		if (response.statusCode < 200 || response.statusCode >= 300 || offset === null) {
+			throw new TransferError(
+				`tus upload could not be resumed: HEAD ${this.uploadUrl} answered HTTP ${response.statusCode}${offset === null ? ' without Upload-Offset' : ''}`,
+				{ statusCode: response.statusCode, headers: response.headers },
+			);
+		}
+		// The chunk is only buffered from its start, so the server must not be behind or ahead of it
+		if (offset < chunkStart || offset > chunkEnd) {
+			throw new TransferError(
+				`tus upload could not be resumed: server offset ${offset} is outside the current chunk (${chunkStart}-${chunkEnd})`,
+			);
+		}
+		this.offset = offset;
+	}
+}
@@ -0,0 +1,300 @@
+/**
+ * Request Authentication
+ *
+ * Turns the download and upload credentials into request headers and query parameters,
+ * and redacts the secrets they contain from output and error messages.
+ *
+ * Supported credential types:
+ * - HTTP auth credentials: Basic, Bearer, custom header or query parameter API key
+ * - OAuth2 credentials: the stored access token is sent as a Bearer token. The node sends its
+ *   requests itself instead of through n8n's OAuth2 request helper, which cannot stream; when a
+ *   request is rejected with HTTP 401 it has n8n refresh the token and save it in the credential.
+ *
+ * @module utils/auth
+ */
+
+import type { ICredentialDataDecryptedObject, IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { URL } from 'url';
+import { findHeaderKey } from '../GenericFunctions';
+
+/**
+ * Authentication selected for one side of the transfer
+ */
+export type AuthenticationType = 'none' | 'httpAuth' | 'oAuth2';
+
+/**
+ * Fields of the download/upload HTTP auth credential types
+ */
+export interface HttpAuthCredentials {
+	authType: 'basic' | 'bearer' | 'header' | 'query';
+	user?: string;
+	password?: string;
+	token?: string;
+	headerName?: string;
+	headerValue?: string;
+	queryName?: string;
+	queryValue?: string;
+}
+
+/**
+ * Authentication resolved from a credential
+ */
+export interface RequestAuth {
+	/** Headers to add to every request */
+	headers: Record<string, string>;
+	/** Query parameters to add to the request URL */
+	query: Record<string, string>;
+	/** Secret values that must not appear in output or error messages */
+	secrets: string[];
+	/** Fetches a new access token after the current one was rejected (OAuth2 only) */
+	refresh?: () => Promise<RequestAuth>;
+}
+
+export const NO_AUTH: RequestAuth = { headers: {}, query: {}, secrets: [] };
+
+/**
+ * Build request authentication from an HTTP auth credential
+ *
+ * @param credentials - Decrypted credential data
+ * @returns Headers, query parameters and secrets
+ * @throws Error if a required credential field is empty
+ */
+export function getHttpAuth(credentials: HttpAuthCredentials): RequestAuth {
+	switch (credentials.authType) {
+		case 'basic': {
+			const encoded = Buffer.from(`${credentials.user ?? ''}:${credentials.password ?? ''}`).toString('base64');
+			return {
+				headers: { Authorization: `Basic ${encoded}` },
+				query: {},
+				secrets: [encoded, credentials.password ?? ''],
+			};
+		}
+		case 'header':
+			if (!credentials.headerName) {
+				throw new Error('Header Name is required for custom header authentication');
+			}
+			return {
+				headers: { [credentials.headerName]: credentials.headerValue ?? '' },
+				query: {},
+				secrets: [credentials.headerValue ?? ''],
+			};
+		case 'query':
+			if (!credentials.queryName) {
+				throw new Error('Parameter Name is required for query parameter authentication');
+			}
+			return {
+				headers: {},
+				query: { [credentials.queryName]: credentials.queryValue ?? '' },
+				secrets: [credentials.queryValue ?? ''],
+			};
+		default:
+			return {
+				headers: { Authorization: `Bearer ${credentials.token ?? ''}` },
+				query: {},
+				secrets: [credentials.token ?? ''],
+			};
+	}
+}
+
+/**
+ * Build request authentication from an OAuth2 credential
+ *
+ * @param credentials - Decrypted credential data including oauthTokenData
+ * @returns Bearer Authorization header with the stored access token
+ * @throws Error if the credential has not been connected yet
+ */
+export function getOAuth2Auth(credentials: ICredentialDataDecryptedObject): RequestAuth {
+	const tokenData = credentials.oauthTokenData as { access_token?: string } | undefined;
+	const accessToken = tokenData?.access_token;
+	if (!accessToken) {
+		throw new Error('OAuth2 credential has no access token. Connect the credential before using it.');
+	}
+	return {
+		headers: { Authorization: `Bearer ${accessToken}` },
+		query: {},
+		secrets: [accessToken],
+	};
+}
+
+/**
+ * Request a new access token for an OAuth2 credential
+ *
+ * n8n refreshes the token with the credential's refresh token, or requests a new one for the
+ * client credentials grant, and saves the new token data in the credential. Later executions
+ * use the new token, and providers that rotate refresh tokens keep working.
+ *
+ * @param this - n8n execution context
+ * @param credentialType - Name of the OAuth2 credential type
+ * @returns Bearer Authorization header with the new access token
+ * @throws Error if the credential has no refresh token or the token endpoint fails
+ */
+export async function refreshOAuth2Auth(this: IExecuteFunctions, credentialType: string): Promise<RequestAuth> {
+	const tokenData = (await this.helpers.refreshOAuth2Token.call(this, credentialType)) as IDataObject;
+	return getOAuth2Auth({ oauthTokenData: tokenData });
+}
+
+/**
+ * Resolve the credential selected for one side of the transfer
+ *
+ * @param this - n8n execution context
+ * @param authentication - Value of the side's authentication parameter
+ * @param side - Which credential types to use
+ * @param itemIndex - Index of the current item
+ * @returns Headers, query parameters and secrets of the credential, and a token refresh for OAuth2
+ */
+export async function getRequestAuth(
+	this: IExecuteFunctions,
+	authentication: AuthenticationType,
+	side: 'Download' | 'Upload',
+	itemIndex: number,
+): Promise<RequestAuth> {
+	if (authentication === 'httpAuth') {
+		return getHttpAuth(
+			await this.getCredentials<HttpAuthCredentials>(`streamFileTransfer${side}AuthApi`, itemIndex),
+		);
+	}
+	if (authentication === 'oAuth2') {
+		const credentialType = `streamFileTransfer${side}OAuth2Api`;
+		return {
+			...getOAuth2Auth(await this.getCredentials(credentialType, itemIndex)),
+			refresh: async () => await refreshOAuth2Auth.call(this, credentialType),
+		};
+	}
+	return NO_AUTH;
+}
+
+/**
+ * Add credential headers, replacing headers with the same name in any letter case
+ *
+ * @param headers - Headers to modify
+ * @param authHeaders - Headers from the credential
+ */
+export function applyHeaderAuth(headers: Record<string, string>, authHeaders: Record<string, string>): void {
+	for (const [name, value] of Object.entries(authHeaders)) {
+		const existing = findHeaderKey(headers, name);
+		if (existing) {
+			delete headers[existing];
+		}
+		headers[name] = value;
+	}
+}
+
+/**
+ * Add authentication query parameters to a URL
+ *
+ * @param url - Request URL
+ * @param query - Parameters to set (existing parameters with the same name are replaced)
+ * @returns URL with the parameters, or the original URL if there are none or it is invalid
+ */
+export function applyQueryAuth(url: string, query: Record<string, string>): string {
+	if (Object.keys(query).length === 0) {
+		return url;
+	}
+	try {
+		const parsed = new URL(url);
+		for (const [name, value] of Object.entries(query)) {
+			parsed.searchParams.set(name, value);
+		}
+		return parsed.toString();
+	} catch {
+		return url;
+	}
+}
+
+/**
+ * Secrets shorter than this are only replaced where they stand as a URL password or query
+ * value; anywhere else they would turn status codes and ordinary words into placeholders
+ */
+const MIN_FREE_TEXT_SECRET_LENGTH = 4;
+
+/**
+ * Replace secret values in a text with a placeholder
+ *
+ * Both the raw and the URL-encoded forms of each secret are replaced, so secrets are also
+ * removed from URLs in error messages and redirect chains.
+ *
+ * @param text - Text that may contain secrets
+ * @param secrets - Secret values (empty values are ignored)
+ * @returns Text with every secret replaced by "***"
+ */
+export function redactSecrets(text: string, secrets: string[]): string {
+	let result = text;
+	const variants = new Set<string>();
+	for (const secret of secrets) {
+		if (secret) {
+			variants.add(secret);
+			variants.add(encodeURIComponent(secret));
+			// URLSearchParams encodes spaces as "+"
+			variants.add(encodeURIComponent(secret).replace(/%20/g, '+'));
+		}
+	}
+	// Replace longer values first so a secret containing another one is fully removed
+	for (const variant of [...variants].sort((a, b) => b.length - a.length)) {
+		if (variant.length >= MIN_FREE_TEXT_SECRET_LENGTH) {
+			result = result.split(variant).join('***');
+		} else {
+			const escaped = variant.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+			result = result.replace(new RegExp(`(?<=[:=])${escaped}(?=[@&#\\s"']|$)`, 'g'), '***');
+		}
+	}
+	return result;
+}
+
+/**
+ * Redact secret values from response headers for the output
+ *
+ * @param headers - Response headers
+ * @param secrets - Secret values
+ * @returns Headers with every value redacted (undefined values are left out)
+ */
+export function redactHeaders(headers: Record<string, unknown> | undefined, secrets: string[]): IDataObject {
+	const redacted: IDataObject = {};
+	for (const [name, value] of Object.entries(headers ?? {})) {
+		if (value !== undefined) {
+			redacted[name] = Array.isArray(value)
+				? value.map((entry) => redactSecrets(String(entry), secrets))
+				: redactSecrets(String(value), secrets);
+		}
+	}
+	return redacted;
+}
+
+/**
+ * Request headers of one side and the authentication applied to them
+ */
+export interface AuthenticatedHeaders {
+	auth: RequestAuth;
+	headers: Record<string, string>;
+}
+
+/**
+ * Create the refresh of rejected OAuth2 access tokens for one item
+ *
+ * The first HTTP 401 refreshes the tokens of every side with an OAuth2 credential and puts the
+ * new Authorization headers into that side's request headers. Later 401s are left to the
+ * retry policy.
+ *
+ * @param sides - Sides whose credentials are refreshed
+ * @param secrets - Secret list of the item; the new tokens are added to it
+ * @returns Callback that returns true if the status code led to a refresh
+ */
+export function createCredentialRefresh(
+	sides: AuthenticatedHeaders[],
+	secrets: string[],
+): (statusCode: number | undefined) => Promise<boolean> {
+	let refreshed = false;
+	return async (statusCode) => {
+		if (statusCode !== 401 || refreshed || !sides.some(({ auth }) => auth.refresh)) {
+			return false;
+		}
+		refreshed = true;
+		for (const { auth, headers } of sides) {
+			if (auth.refresh) {
+				const refreshedAuth = await auth.refresh();
+				applyHeaderAuth(headers, refreshedAuth.headers);
+				secrets.push(...refreshedAuth.secrets);
+			}
+		}
+		return true;
+	};
+}
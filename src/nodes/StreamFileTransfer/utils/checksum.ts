@@ -0,0 +1,204 @@
+/**
+ * Checksum Calculation
+ *
+ * Pass-through stream stage that hashes data on its way from the download to the upload,
+ * plus helpers to compare the resulting digests with expected values.
+ *
+ * Supported algorithms: MD5, SHA-1 and SHA-256 (Node.js crypto) and CRC32C (table-based,
+ * as used by Google Cloud Storage and S3 additional checksums).
+ *
+ * All digests are reported as lowercase hex strings.
+ *
+ * @module utils/checksum
+ */
+
+import { createHash, type Hash } from 'crypto';
+import { Transform, type TransformCallback } from 'stream';
+import { TransferError } from '../GenericFunctions';
+
+export type ChecksumAlgorithm = 'md5' | 'sha1' | 'sha256' | 'crc32c';
+
+export const CHECKSUM_ALGORITHMS: ChecksumAlgorithm[] = ['md5', 'sha1', 'sha256', 'crc32c'];
+
+/**
+ * Lookup table for CRC32C (Castagnoli polynomial, reflected 0x82F63B78)
+ */
+const CRC32C_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0x82f63b78 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+/**
+ * Update a running CRC32C value with a chunk of data
+ *
+ * @param crc - Current CRC value (start with 0)
+ * @param chunk - Data to add
+ * @returns Updated CRC value
+ */
+export function crc32c(crc: number, chunk: Buffer): number {
+	let c = ~crc >>> 0;
+	for (let i = 0; i < chunk.length; i++) {
+		c = CRC32C_TABLE[(c ^ chunk[i]) & 0xff] ^ (c >>> 8);
+	}
+	return ~c >>> 0;
+}
+
+/**
+ * Transform stream that computes checksums of all data passing through it
+ *
+ * Data is forwarded unchanged, so the stage can sit between the download response and
+ * the upload body without affecting streaming or backpressure.
+ */
+export class HashingStream extends Transform {
+	private readonly hashes: Partial<Record<ChecksumAlgorithm, Hash>> = {};
+
+	private crc: number | undefined;
+
+	private result: Partial<Record<ChecksumAlgorithm, string>> | undefined;
+
+	constructor(algorithms: ChecksumAlgorithm[]) {
+		super();
+		for (const algorithm of algorithms) {
+			if (algorithm === 'crc32c') {
+				this.crc = 0;
+			} else {
+				this.hashes[algorithm] = createHash(algorithm);
+			}
+		}
+	}
+
+	_transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+		for (const hash of Object.values(this.hashes)) {
+			hash.update(chunk);
+		}
+		if (this.crc !== undefined) {
+			this.crc = crc32c(this.crc, chunk);
+		}
+		callback(null, chunk);
+	}
+
+	_flush(callback: TransformCallback): void {
+		const result: Partial<Record<ChecksumAlgorithm, string>> = {};
+		for (const [algorithm, hash] of Object.entries(this.hashes)) {
+			result[algorithm as ChecksumAlgorithm] = hash.digest('hex');
+		}
+		if (this.crc !== undefined) {
+			result.crc32c = this.crc.toString(16).padStart(8, '0');
+		}
+		this.result = result;
+		callback();
+	}
+
+	/**
+	 * Digests of all data that passed through the stream
+	 *
+	 * @returns Hex digests per algorithm, or undefined if the stream has not ended yet
+	 */
+	get digests(): Partial<Record<ChecksumAlgorithm, string>> | undefined {
+		return this.result;
+	}
+}
+
+/**
+ * Normalize a checksum to lowercase hex
+ *
+ * Accepts hex or base64 input (Content-MD5 and x-goog-hash use base64) and strips
+ * surrounding quotes as found in ETag values.
+ *
+ * @param value - Checksum in hex or base64
+ * @returns Lowercase hex string
+ */
+export function normalizeChecksum(value: string): string {
+	const trimmed = value.trim().replace(/^W\//, '').replace(/^"|"$/g, '');
+	if (/^[0-9a-f]+$/i.test(trimmed) && trimmed.length % 2 === 0) {
+		return trimmed.toLowerCase();
+	}
+	return Buffer.from(trimmed, 'base64').toString('hex');
+}
+
+/**
+ * Get the MD5 announced by the source, if any
+ *
+ * Content-MD5 is used when present. Otherwise the ETag is used if it looks like a plain
+ * MD5 hex digest (e.g. S3 single-part uploads; multipart ETags contain a "-").
+ *
+ * @param headers - Download response headers
+ * @returns MD5 as lowercase hex, or null if the source does not announce one
+ */
+export function getSourceMd5(headers: Record<string, string | string[] | undefined>): string | null {
+	const contentMd5 = headers['content-md5'];
+	if (typeof contentMd5 === 'string' && contentMd5.trim() !== '') {
+		return normalizeChecksum(contentMd5);
+	}
+	const etag = headers.etag;
+	if (typeof etag === 'string') {
+		const value = etag.replace(/^W\//, '').replace(/"/g, '');
+		if (/^[0-9a-f]{32}$/i.test(value)) {
+			return value.toLowerCase();
+		}
+	}
+	return null;
+}
+
+/**
+ * Get the SHA-256 announced by the source, if any
+ *
+ * Checked in order: Repr-Digest and Content-Digest (RFC 9530), Digest (RFC 3230),
+ * x-amz-checksum-sha256 (S3, full-object checksums only) and x-checksum-sha256 (Artifactory).
+ *
+ * @param headers - Download response headers
+ * @returns SHA-256 as lowercase hex, or null if the source does not announce one
+ */
+export function getSourceSha256(headers: Record<string, string | string[] | undefined>): string | null {
+	for (const name of ['repr-digest', 'content-digest', 'digest']) {
+		const header = headers[name];
+		if (typeof header !== 'string') {
+			continue;
+		}
+		// sha-256=:base64: (RFC 9530) or SHA-256=base64 (RFC 3230), possibly among other algorithms
+		const match = /(?:^|,)\s*sha-256=:?([A-Za-z0-9+/=]+):?\s*(?:,|$)/i.exec(header);
+		if (match) {
+			return normalizeChecksum(match[1]);
+		}
+	}
+	const amzChecksum = headers['x-amz-checksum-sha256'];
+	if (typeof amzChecksum === 'string' && amzChecksum.trim() !== '' && !amzChecksum.includes('-')) {
+		return normalizeChecksum(amzChecksum);
+	}
+	const checksumHeader = headers['x-checksum-sha256'];
+	if (typeof checksumHeader === 'string' && /^[0-9a-f]{64}$/i.test(checksumHeader.trim())) {
+		return checksumHeader.trim().toLowerCase();
+	}
+	return null;
+}
+
+/**
+ * Compare a computed digest with an expected value
+ *
+ * @param algorithm - Algorithm of both values
+ * @param actual - Computed digest (lowercase hex)
+ * @param expected - Expected value in hex or base64
+ * @param source - Where the expected value came from (used in the error message)
+ * @throws TransferError with code CHECKSUM_MISMATCH if the values differ
+ */
+export function assertChecksumMatch(
+	algorithm: ChecksumAlgorithm,
+	actual: string,
+	expected: string,
+	source: string,
+): void {
+	const normalized = normalizeChecksum(expected);
+	if (normalized !== actual) {
+		throw new TransferError(
+			`Checksum mismatch: ${algorithm} of the transferred data is ${actual} but ${source} is ${normalized}`,
+			{ code: 'CHECKSUM_MISMATCH' },
+		);
+	}
+}
@@ -0,0 +1,51 @@
+/**
+ * Concurrency Limit
+ *
+ * Runs a task per input item with at most a given number of tasks in flight and collects
+ * the results in item order.
+ *
+ * @module utils/concurrency
+ */
+
+/**
+ * Run indexed tasks with a concurrency limit
+ *
+ * When a task fails, no further tasks are started. Tasks already running are allowed to
+ * finish (so no transfer is left half-done in the background) and the error of the failed
+ * task with the lowest index is thrown, which is the error a sequential loop would have
+ * thrown.
+ *
+ * @param count - Number of tasks
+ * @param concurrency - Maximum number of tasks running at the same time (at least 1)
+ * @param task - Function that runs the task for an index
+ * @returns Task results in index order
+ * @throws The error of the first failed task
+ */
+export async function runWithConcurrency<T>(
+	count: number,
+	concurrency: number,
+	task: (index: number) => Promise<T>,
+): Promise<T[]> {
+	const results = new Array<T>(count);
+	const errors = new Map<number, unknown>();
+	let next = 0;
+
+	const worker = async (): Promise<void> => {
+		while (next < count && errors.size === 0) {
+			const index = next++;
+			try {
+				results[index] = await task(index);
+			} catch (error) {
+				errors.set(index, error);
+			}
+		}
+	};
+
+	const workers = Math.max(1, Math.min(Math.floor(concurrency) || 1, count));
+	await Promise.all(Array.from({ length: workers }, worker));
+
+	if (errors.size > 0) {
+		throw errors.get(Math.min(...errors.keys()));
+	}
+	return results;
+}
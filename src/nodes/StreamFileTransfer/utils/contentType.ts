@@ -0,0 +1,124 @@
+/**
+ * Content-Type Detection
+ *
+ * Detects the media type of a file from its first bytes ("magic bytes"), for sources that
+ * send no or only a generic Content-Type.
+ *
+ * Binary formats are recognized by their signatures. Files without a known signature are
+ * reported as XML, HTML or plain text when their start looks like it and contains no
+ * binary bytes (loosely following the WHATWG MIME Sniffing rules).
+ *
+ * @module utils/contentType
+ */
+
+/**
+ * Where the upload Content-Type comes from
+ * - fixed: Configured value
+ * - download: Content-Type header of the download response
+ * - sniff: Detected from the first bytes of the file
+ */
+export type ContentTypeSource = 'fixed' | 'download' | 'sniff';
+
+/**
+ * Number of bytes needed to recognize every supported signature (tar has its magic at 257)
+ */
+export const SNIFF_LENGTH = 512;
+
+/**
+ * A file signature: the bytes expected at an offset
+ */
+interface Signature {
+	offset: number;
+	bytes: number[] | string;
+	contentType: string;
+}
+
+/**
+ * Known signatures, most specific first
+ */
+const SIGNATURES: Signature[] = [
+	{ offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], contentType: 'image/png' },
+	{ offset: 0, bytes: [0xff, 0xd8, 0xff], contentType: 'image/jpeg' },
+	{ offset: 0, bytes: 'GIF87a', contentType: 'image/gif' },
+	{ offset: 0, bytes: 'GIF89a', contentType: 'image/gif' },
+	{ offset: 8, bytes: 'WEBP', contentType: 'image/webp' },
+	{ offset: 0, bytes: [0x49, 0x49, 0x2a, 0x00], contentType: 'image/tiff' },
+	{ offset: 0, bytes: [0x4d, 0x4d, 0x00, 0x2a], contentType: 'image/tiff' },
+	{ offset: 0, bytes: [0x00, 0x00, 0x01, 0x00], contentType: 'image/x-icon' },
+	{ offset: 4, bytes: 'ftypheic', contentType: 'image/heic' },
+	{ offset: 4, bytes: 'ftypqt  ', contentType: 'video/quicktime' },
+	{ offset: 4, bytes: 'ftypM4A ', contentType: 'audio/mp4' },
+	{ offset: 4, bytes: 'ftyp', contentType: 'video/mp4' },
+	{ offset: 0, bytes: [0x1a, 0x45, 0xdf, 0xa3], contentType: 'video/webm' },
+	{ offset: 8, bytes: 'AVI ', contentType: 'video/x-msvideo' },
+	{ offset: 8, bytes: 'WAVE', contentType: 'audio/wav' },
+	{ offset: 0, bytes: 'ID3', contentType: 'audio/mpeg' },
+	{ offset: 0, bytes: 'OggS', contentType: 'audio/ogg' },
+	{ offset: 0, bytes: 'fLaC', contentType: 'audio/flac' },
+	{ offset: 0, bytes: '%PDF-', contentType: 'application/pdf' },
+	{ offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04], contentType: 'application/zip' },
+	{ offset: 0, bytes: [0x50, 0x4b, 0x05, 0x06], contentType: 'application/zip' },
+	{ offset: 0, bytes: [0x1f, 0x8b], contentType: 'application/gzip' },
+	{ offset: 0, bytes: 'BZh', contentType: 'application/x-bzip2' },
+	{ offset: 0, bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00], contentType: 'application/x-xz' },
+	{ offset: 0, bytes: [0x28, 0xb5, 0x2f, 0xfd], contentType: 'application/zstd' },
+	{ offset: 0, bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], contentType: 'application/x-7z-compressed' },
+	{ offset: 0, bytes: 'Rar!', contentType: 'application/vnd.rar' },
+	{ offset: 257, bytes: 'ustar', contentType: 'application/x-tar' },
+	{ offset: 0, bytes: 'PAR1', contentType: 'application/vnd.apache.parquet' },
+	{ offset: 0, bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1], contentType: 'application/x-ole-storage' },
+	{ offset: 0, bytes: [0x7f, 0x45, 0x4c, 0x46], contentType: 'application/x-elf' },
+	{ offset: 0, bytes: [0x00, 0x61, 0x73, 0x6d], contentType: 'application/wasm' },
+	{ offset: 0, bytes: 'SQLite format 3\0', contentType: 'application/vnd.sqlite3' },
+];
+
+/**
+ * Check whether a signature matches the start of a file
+ */
+function matches(head: Buffer, signature: Signature): boolean {
+	const bytes = typeof signature.bytes === 'string' ? Buffer.from(signature.bytes, 'latin1') : signature.bytes;
+	if (head.length < signature.offset + bytes.length) {
+		return false;
+	}
+	return bytes.every((byte, index) => head[signature.offset + index] === byte);
+}
+
+/**
+ * Check whether a byte can only appear in binary data (control characters other than whitespace)
+ */
+function isBinaryByte(byte: number): boolean {
+	return byte <= 0x08 || byte === 0x0b || (byte >= 0x0e && byte <= 0x1a) || (byte >= 0x1c && byte <= 0x1f);
+}
+
+/**
+ * Detect the media type of a file from its first bytes
+ *
+ * @param head - First bytes of the file (SNIFF_LENGTH bytes recognize every signature)
+ * @returns Detected media type, or undefined for empty or unrecognized binary data
+ * @example
+ * sniffContentType(Buffer.from('%PDF-1.7\n...'))
+ * // Returns: 'application/pdf'
+ */
+export function sniffContentType(head: Buffer): string | undefined {
+	const signature = SIGNATURES.find((candidate) => matches(head, candidate));
+	if (signature) {
+		return signature.contentType;
+	}
+
+	if (head.length === 0 || head.some(isBinaryByte)) {
+		return undefined;
+	}
+
+	// Text: skip a UTF-8 byte order mark and leading whitespace before looking at markup
+	const text = head.toString('utf8').replace(/^\uFEFF/, '').trimStart().toLowerCase();
+	if (text.startsWith('<?xml')) {
+		return text.includes('<svg') ? 'image/svg+xml' : 'application/xml';
+	}
+	if (text.startsWith('<svg')) {
+		return 'image/svg+xml';
+	}
+	if (/^<(!doctype html|html|head|body)[\s>]/.test(text)) {
+		return 'text/html';
+	}
+	return 'text/plain';
+}
@@ -0,0 +1,294 @@
+/**
+ * Host Policy
+ *
+ * Protects against server-side request forgery: download and upload URLs usually come from
+ * workflow expressions, so an input item could otherwise make n8n request internal services
+ * such as the cloud metadata endpoint (169.254.169.254) or an admin interface on localhost.
+ *
+ * Private network addresses are blocked by default: loopback, link-local, RFC 1918, the
+ * unspecified address and IPv6 unique local addresses. The check runs on the resolved IP
+ * addresses, so host names pointing to internal addresses are caught as well. For direct
+ * HTTPS downloads and uploads it runs inside the DNS lookup of every connection, including
+ * each redirect hop; plain HTTP uploads, SFTP and FTP connect to the address that was checked.
+ * Both defeat DNS rebinding, where a name resolves to a public address for the check and to an
+ * internal one for the connection. Proxied requests are checked right before they are sent,
+ * because the proxy resolves the host itself.
+ *
+ * An allowlist per side narrows the hosts further. Entries are host names (`*.example.com`
+ * for subdomains), IP addresses or CIDR ranges; listed hosts are allowed even if they are
+ * in a private network.
+ *
+ * @module utils/hostPolicy
+ */
+
+import * as dns from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { URL } from 'url';
+import type { IDataObject, IRequestOptions } from 'n8n-workflow';
+import { findHeaderKey, TransferError } from '../GenericFunctions';
+
+/**
+ * Hosts one side of the transfer may connect to
+ */
+export interface HostPolicy {
+	/** Whether private network addresses are refused */
+	blockPrivateNetworks: boolean;
+	/** Allowed host names in lowercase; entries starting with "." match subdomains */
+	allowedHostnames: string[];
+	/** Allowed IP addresses and ranges */
+	allowedNetworks: BlockList;
+	/** Whether the allowlist has any entries */
+	hasAllowlist: boolean;
+}
+
+/**
+ * Loopback, link-local, RFC 1918, unspecified and IPv6 unique local addresses
+ */
+const PRIVATE_NETWORKS = new BlockList();
+PRIVATE_NETWORKS.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addAddress('::', 'ipv6');
+PRIVATE_NETWORKS.addAddress('::1', 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fc00::', 7, 'ipv6');
+
+/**
+ * Get the BlockList family name of an IP address
+ */
+function getFamily(address: string): 'ipv4' | 'ipv6' {
+	return isIP(address) === 6 ? 'ipv6' : 'ipv4';
+}
+
+/**
+ * Build the policy of one side from the node's "Security" parameter collection
+ *
+ * @param securityParam - Value of the collection (missing fields use defaults)
+ * @param side - Side whose allowlist is used
+ * @returns Resolved policy
+ * @throws Error if an allowlist entry is an invalid CIDR range
+ */
+export function getHostPolicy(securityParam: IDataObject, side: 'download' | 'upload'): HostPolicy {
+	const entries = String(securityParam[`${side}AllowedHosts`] ?? '')
+		.split(',')
+		.map((entry) => entry.trim().toLowerCase())
+		.filter((entry) => entry !== '');
+
+	const allowedHostnames: string[] = [];
+	const allowedNetworks = new BlockList();
+	for (const entry of entries) {
+		const [address, prefix] = entry.replace(/^\[|\](?=\/|$)/g, '').split('/');
+		if (isIP(address)) {
+			const family = getFamily(address);
+			const length = prefix === undefined ? (family === 'ipv4' ? 32 : 128) : Number(prefix);
+			if (!Number.isInteger(length) || length < 0 || length > (family === 'ipv4' ? 32 : 128)) {
+				throw new Error(`Invalid CIDR range "${entry}" in the ${side} allowed hosts`);
+			}
+			allowedNetworks.addSubnet(address, length, family);
+		} else if (prefix !== undefined) {
+			throw new Error(`Invalid CIDR range "${entry}" in the ${side} allowed hosts`);
+		} else {
+			allowedHostnames.push(entry.replace(/^\*\./, '.'));
+		}
+	}
+
+	return {
+		blockPrivateNetworks: securityParam.blockPrivateNetworks !== false,
+		allowedHostnames,
+		allowedNetworks,
+		hasAllowlist: entries.length > 0,
+	};
+}
+
+/**
+ * Check whether an IP address is in a private network
+ *
+ * @param address - IPv4 or IPv6 address (IPv4-mapped IPv6 addresses are checked as IPv4)
+ */
+export function isPrivateAddress(address: string): boolean {
+	return PRIVATE_NETWORKS.check(address, getFamily(address));
+}
+
+/**
+ * Check whether a host name is on the allowlist
+ */
+function isAllowedHostname(policy: HostPolicy, hostname: string): boolean {
+	const host = hostname.toLowerCase().replace(/\.$/, '');
+	return policy.allowedHostnames.some((entry) => (entry.startsWith('.') ? host.endsWith(entry) : host === entry));
+}
+
+/**
+ * Check a resolved address of a host against the policy
+ *
+ * @param policy - Policy of the side
+ * @param hostname - Host name from the URL
+ * @param address - One of its IP addresses
+ * @throws TransferError with code HOST_NOT_ALLOWED if the connection is not allowed
+ */
+export function assertAddressAllowed(policy: HostPolicy, hostname: string, address: string): void {
+	if (isAllowedHostname(policy, hostname) || policy.allowedNetworks.check(address, getFamily(address))) {
+		return;
+	}
+	const target = hostname === address ? address : `${hostname} (${address})`;
+	if (policy.hasAllowlist) {
+		throw new TransferError(`Connection to ${target} is blocked: the host is not in the allowed hosts`, {
+			code: 'HOST_NOT_ALLOWED',
+		});
+	}
+	if (policy.blockPrivateNetworks && isPrivateAddress(address)) {
+		throw new TransferError(`Connection to ${target} is blocked: the address is in a private network`, {
+			code: 'HOST_NOT_ALLOWED',
+		});
+	}
+}
+
+/**
+ * Check whether the policy restricts any connection
+ */
+function isRestricted(policy: HostPolicy): boolean {
+	return policy.hasAllowlist || policy.blockPrivateNetworks;
+}
+
+/**
+ * Resolve a host once and check every address against the policy
+ *
+ * Connecting to the returned address instead of the name keeps a second lookup from leading
+ * somewhere else.
+ *
+ * @param policy - Policy of the side
+ * @param hostname - Host name or IP address (IPv6 in brackets is accepted)
+ * @returns Address to connect to, or the host itself if it is an IP address or needs no check
+ * @throws TransferError with code HOST_NOT_ALLOWED if the connection is not allowed
+ */
+export async function resolveAllowedHost(policy: HostPolicy, hostname: string): Promise<string> {
+	const host = hostname.replace(/^\[|\]$/g, '');
+	if (isIP(host)) {
+		assertAddressAllowed(policy, host, host);
+		return host;
+	}
+	if (isAllowedHostname(policy, host) || !isRestricted(policy)) {
+		return host;
+	}
+	const addresses = await dns.promises.lookup(host, { all: true });
+	for (const { address } of addresses) {
+		assertAddressAllowed(policy, host, address);
+	}
+	return addresses[0].address;
+}
+
+/**
+ * Check a host against the policy
+ *
+ * IP addresses are checked directly. Host names on the allowlist pass; other names are
+ * resolved and every address is checked, unless `resolve` is false because the connection
+ * uses the lookup from createGuardedLookup.
+ *
+ * @param policy - Policy of the side
+ * @param hostname - Host name or IP address (IPv6 in brackets is accepted)
+ * @param resolve - Whether host names are resolved here
+ * @throws TransferError with code HOST_NOT_ALLOWED if the connection is not allowed
+ */
+export async function assertHostAllowed(policy: HostPolicy, hostname: string, resolve = true): Promise<void> {
+	if (resolve || isIP(hostname.replace(/^\[|\]$/g, ''))) {
+		await resolveAllowedHost(policy, hostname);
+	}
+}
+
+/**
+ * Check the host of a network URL against the policy
+ *
+ * @param policy - Policy of the side
+ * @param url - http(s), sftp or ftp(s) URL; other URLs (file://, invalid) are not checked
+ * @throws TransferError with code HOST_NOT_ALLOWED if the connection is not allowed
+ */
+export async function assertUrlAllowed(policy: HostPolicy, url: string): Promise<void> {
+	let parsed: URL;
+	try {
+		parsed = new URL(url.trim());
+	} catch {
+		return;
+	}
+	if (/^(https?|s?ftp|ftps):$/i.test(parsed.protocol)) {
+		await assertHostAllowed(policy, parsed.hostname);
+	}
+}
+
+/**
+ * Create a DNS lookup for http.request() that refuses addresses not allowed by the policy
+ *
+ * Because the check runs on the addresses the socket actually connects to, a host name
+ * cannot resolve to a public address for a check and to an internal one for the request.
+ *
+ * @param policy - Policy of the side
+ * @returns Lookup function for the `lookup` request option
+ */
+export function createGuardedLookup(policy: HostPolicy): LookupFunction {
+	return (hostname, options, callback) => {
+		dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+			if (error) {
+				callback(error, '', 0);
+				return;
+			}
+			try {
+				for (const { address } of addresses) {
+					assertAddressAllowed(policy, hostname, address);
+				}
+			} catch (blocked) {
+				callback(blocked as NodeJS.ErrnoException, '', 0);
+				return;
+			}
+			if (options.all) {
+				callback(null, addresses);
+			} else {
+				callback(null, addresses[0].address, addresses[0].family);
+			}
+		});
+	};
+}
+
+/**
+ * Make a request through n8n's request helper connect only to allowed addresses
+ *
+ * Plain HTTP requests are sent to the checked address with the original Host header. HTTPS
+ * requests keep the host name for SNI and certificate validation and get the guarded lookup
+ * in `agentOptions`, which the helper hands to the HTTPS agent of the request. Redirects are
+ * not followed: a redirect to an IP address would connect without a lookup. Proxied requests
+ * are resolved and checked here, as the proxy resolves the host when it connects.
+ *
+ * @param requestOptions - Request options to modify, after TLS settings were applied
+ * @param policy - Policy of the side
+ * @throws TransferError with code HOST_NOT_ALLOWED if the connection is not allowed
+ */
+export async function applyRequestHostPolicy(requestOptions: IRequestOptions, policy: HostPolicy): Promise<void> {
+	if (!isRestricted(policy)) {
+		return;
+	}
+	requestOptions.followRedirect = false;
+	requestOptions.followAllRedirects = false;
+
+	const url = new URL(requestOptions.url ?? '');
+	if (requestOptions.proxy) {
+		await resolveAllowedHost(policy, url.hostname);
+		return;
+	}
+	if (url.protocol === 'http:') {
+		const address = await resolveAllowedHost(policy, url.hostname);
+		if (isIP(address) && !isIP(url.hostname.replace(/^\[|\]$/g, ''))) {
+			const headers = { ...requestOptions.headers };
+			if (!findHeaderKey(headers, 'host')) {
+				headers.Host = url.host;
+			}
+			url.hostname = isIP(address) === 6 ? `[${address}]` : address;
+			requestOptions.url = url.toString();
+			requestOptions.headers = headers;
+		}
+		return;
+	}
+	requestOptions.agentOptions = {
+		...requestOptions.agentOptions,
+		lookup: createGuardedLookup(policy),
+	} as IRequestOptions['agentOptions'];
+}
@@ -0,0 +1,136 @@
+/**
+ * File Limits
+ *
+ * Guards that keep unexpectedly large or unwanted files away from the destinations.
+ *
+ * The size limit is checked twice: against the announced Content-Length as soon as the
+ * download headers arrive, and on the bytes actually counted while streaming, for chunked
+ * responses and sources that announce less than they send. The content type is checked
+ * before the upload starts. Violations fail with a distinct code and are never retried.
+ *
+ * @module utils/limits
+ */
+
+import { Transform, type TransformCallback } from 'stream';
+import type { IDataObject } from 'n8n-workflow';
+import { TransferError } from '../GenericFunctions';
+
+/**
+ * Resolved limit configuration
+ */
+export interface FileLimits {
+	/** Maximum file size in bytes (0 = unlimited) */
+	maxFileSize: number;
+	/** Media types that may be transferred (empty = all); entries may end in /* */
+	allowedContentTypes: string[];
+	/** Media types that are refused; entries may end in /* */
+	blockedContentTypes: string[];
+}
+
+/**
+ * Split a comma-separated list of media types into lowercase entries
+ */
+function splitContentTypes(value: unknown): string[] {
+	return String(value ?? '')
+		.split(',')
+		.map((entry) => entry.trim().toLowerCase())
+		.filter((entry) => entry !== '');
+}
+
+/**
+ * Build the limits from the node's "File Limits" parameter collection
+ *
+ * @param limitsParam - Value of the collection (missing fields mean no limit)
+ * @returns Resolved limits
+ */
+export function getFileLimits(limitsParam: IDataObject): FileLimits {
+	const maxFileSizeMb = Number(limitsParam.maxFileSize ?? 0);
+	return {
+		maxFileSize: Number.isFinite(maxFileSizeMb) && maxFileSizeMb > 0 ? Math.round(maxFileSizeMb * 1024 * 1024) : 0,
+		allowedContentTypes: splitContentTypes(limitsParam.allowedContentTypes),
+		blockedContentTypes: splitContentTypes(limitsParam.blockedContentTypes),
+	};
+}
+
+/**
+ * Check whether a media type matches one of the patterns (exact or "type/*")
+ */
+function matchesContentType(mediaType: string, patterns: string[]): boolean {
+	return patterns.some(
+		(pattern) => pattern === mediaType || pattern === '*/*' || (pattern.endsWith('/*') && mediaType.startsWith(pattern.slice(0, -1))),
+	);
+}
+
+/**
+ * Check the content type of a file against the allowed and blocked lists
+ *
+ * A missing Content-Type counts as application/octet-stream.
+ *
+ * @param limits - Resolved limits
+ * @param contentType - Content-Type of the file, parameters are ignored
+ * @throws TransferError with code CONTENT_TYPE_NOT_ALLOWED if the type is blocked or not allowed
+ */
+export function assertContentTypeAllowed(limits: FileLimits, contentType: string | undefined): void {
+	const mediaType = contentType?.split(';')[0].trim().toLowerCase() || 'application/octet-stream';
+	const blocked = matchesContentType(mediaType, limits.blockedContentTypes);
+	if (blocked || (limits.allowedContentTypes.length > 0 && !matchesContentType(mediaType, limits.allowedContentTypes))) {
+		throw new TransferError(
+			`Content type ${mediaType} is ${blocked ? 'blocked' : 'not in the allowed content types'}`,
+			{ code: 'CONTENT_TYPE_NOT_ALLOWED' },
+		);
+	}
+}
+
+/**
+ * Build the error for a file over the size limit
+ */
+function fileTooLarge(limits: FileLimits, detail: string): TransferError {
+	return new TransferError(`File exceeds the Max File Size of ${limits.maxFileSize} bytes (${detail})`, {
+		code: 'FILE_TOO_LARGE',
+	});
+}
+
+/**
+ * Check the announced size of a file against the limit
+ *
+ * @param limits - Resolved limits
+ * @param contentLength - Content-Length of the download, if known
+ * @throws TransferError with code FILE_TOO_LARGE if the file is larger than allowed
+ */
+export function assertSizeAllowed(limits: FileLimits, contentLength: number | undefined): void {
+	if (limits.maxFileSize > 0 && contentLength !== undefined && contentLength > limits.maxFileSize) {
+		throw fileTooLarge(limits, `Content-Length: ${contentLength}`);
+	}
+}
+
+/**
+ * Pass-through stream stage that fails once more bytes than allowed passed through it
+ *
+ * The chunk crossing the limit is not forwarded, so no destination receives more than the
+ * limit. The error is kept in `limitError` because upload clients may report a failed body
+ * with an error of their own.
+ */
+export class SizeLimitStream extends Transform {
+	/** Number of bytes received so far */
+	private bytes = 0;
+
+	/** Error raised when the limit was exceeded */
+	limitError: TransferError | undefined;
+
+	/**
+	 * @param limits - Resolved limits with a maxFileSize greater than 0
+	 */
+	constructor(private readonly limits: FileLimits) {
+		super();
+	}
+
+	_transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+		this.bytes += chunk.length;
+		if (this.bytes > this.limits.maxFileSize) {
+			this.limitError = fileTooLarge(this.limits, `stopped after ${this.bytes - chunk.length} bytes`);
+			callback(this.limitError);
+			return;
+		}
+		callback(null, chunk);
+	}
+}
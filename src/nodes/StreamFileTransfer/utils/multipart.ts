@@ -0,0 +1,119 @@
+/**
+ * Streaming Multipart Body
+ *
+ * Builds a multipart/form-data request body around a file stream without buffering the file.
+ *
+ * The body is produced by an async generator: text fields and the file part header are
+ * emitted first, then the file stream chunk by chunk, then the closing boundary. Because
+ * Readable.from() pulls from the generator on demand, backpressure from the upload request
+ * reaches the file stream unchanged.
+ *
+ * @module utils/multipart
+ */
+
+import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
+
+const CRLF = '\r\n';
+
+/**
+ * Options describing the multipart form
+ */
+export interface MultipartOptions {
+	/** Name of the form field carrying the file */
+	fieldName: string;
+	/** File name sent in the part's Content-Disposition */
+	fileName: string;
+	/** Content-Type of the file part */
+	contentType: string;
+	/** Additional text fields sent before the file */
+	fields: Array<{ name: string; value: string }>;
+	/** Boundary to use (random if omitted) */
+	boundary?: string;
+}
+
+/**
+ * Multipart body ready to be used as upload request body
+ */
+export interface MultipartBody {
+	stream: Readable;
+	/** Value for the request Content-Type header, including the boundary */
+	contentType: string;
+	/** Total body size, only known if the file size is known */
+	contentLength?: number;
+}
+
+/**
+ * Escape a value for use inside a quoted Content-Disposition parameter
+ *
+ * Follows the HTML form encoding algorithm: quotes and line breaks are percent-encoded.
+ */
+function escapeQuoted(value: string): string {
+	return value.replace(/"/g, '%22').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+/**
+ * Build the Content-Disposition header of the file part
+ *
+ * File names with non-ASCII or control characters are additionally sent as RFC 5987
+ * filename* parameter.
+ */
+function fileDisposition(fieldName: string, fileName: string): string {
+	let disposition = `form-data; name="${escapeQuoted(fieldName)}"; filename="${escapeQuoted(fileName)}"`;
+	if ([...fileName].some((char) => char.charCodeAt(0) < 0x20 || char.charCodeAt(0) > 0x7e)) {
+		disposition += `; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+	}
+	return disposition;
+}
+
+/**
+ * Create a streaming multipart/form-data body
+ *
+ * @param file - File data stream
+ * @param options - Form layout
+ * @param fileLength - File size in bytes, if known (enables Content-Length)
+ * @returns Body stream, Content-Type header value and optional Content-Length
+ */
+export function createMultipartBody(
+	file: Readable,
+	options: MultipartOptions,
+	fileLength?: number,
+): MultipartBody {
+	const boundary = options.boundary ?? `----n8nStreamFileTransfer${randomBytes(12).toString('hex')}`;
+
+	let head = '';
+	for (const field of options.fields) {
+		head += `--${boundary}${CRLF}`;
+		head += `Content-Disposition: form-data; name="${escapeQuoted(field.name)}"${CRLF}${CRLF}`;
+		head += `${field.value}${CRLF}`;
+	}
+	head += `--${boundary}${CRLF}`;
+	head += `Content-Disposition: ${fileDisposition(options.fieldName, options.fileName)}${CRLF}`;
+	head += `Content-Type: ${options.contentType}${CRLF}${CRLF}`;
+
+	const headBuffer = Buffer.from(head, 'utf8');
+	const tailBuffer = Buffer.from(`${CRLF}--${boundary}--${CRLF}`, 'utf8');
+
+	async function* generate() {
+		yield headBuffer;
+		for await (const chunk of file) {
+			yield chunk as Buffer;
+		}
+		yield tailBuffer;
+	}
+
+	const stream = Readable.from(generate(), { objectMode: false });
+	// Release the file stream if the body is torn down before the generator started reading it
+	stream.once('close', () => {
+		if (!file.readableEnded) {
+			file.destroy();
+		}
+	});
+
+	return {
+		stream,
+		contentType: `multipart/form-data; boundary=${boundary}`,
+		contentLength:
+			fileLength !== undefined ? headBuffer.length + fileLength + tailBuffer.length : undefined,
+	};
+}
@@ -0,0 +1,233 @@
+/**
+ * Retry Policy
+ *
+ * Decides whether a failed transfer attempt is retried and how long to wait before the next one.
+ *
+ * A transfer attempt always covers both legs: the upload body is a one-shot stream, so once
+ * bytes have been sent a retry has to start over with a fresh download.
+ *
+ * Delays use exponential backoff (initialDelay * 2^(attempt - 1), capped at maxDelay) with
+ * optional jitter. A Retry-After header on the failed response takes precedence. runWithRetry
+ * runs the attempts of an operation under a policy.
+ *
+ * @module utils/retry
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+
+/**
+ * Resolved retry configuration
+ */
+export interface RetryPolicy {
+	/** Total number of attempts including the first one (1 = no retries) */
+	maxAttempts: number;
+	/** Base delay in milliseconds before the first retry */
+	initialDelay: number;
+	/** Upper bound for any delay in milliseconds */
+	maxDelay: number;
+	/** Whether to randomize delays to avoid synchronized retries */
+	jitter: boolean;
+	/** HTTP status codes that trigger a retry */
+	retryOnStatusCodes: number[];
+	/** Network error codes (e.g. ECONNRESET) that trigger a retry */
+	retryOnErrorCodes: string[];
+	/** Whether the Retry-After response header overrides the backoff delay */
+	respectRetryAfter: boolean;
+}
+
+/**
+ * Information about a failed attempt used to decide on a retry
+ */
+export interface AttemptFailure {
+	statusCode?: number;
+	code?: string;
+	headers?: Record<string, unknown>;
+}
+
+export const DEFAULT_RETRY_STATUS_CODES = '429,502,503,504';
+
+export const DEFAULT_RETRY_ERROR_CODES = 'ECONNRESET,ETIMEDOUT,ECONNREFUSED,EPIPE,EAI_AGAIN,ESOCKETTIMEDOUT';
+
+/**
+ * Split a comma-separated list into trimmed, non-empty entries
+ */
+function splitList(value: string): string[] {
+	return value
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter((entry) => entry !== '');
+}
+
+/**
+ * Build a retry policy from the node's "Retry" parameter collection
+ *
+ * @param retryParam - Value of the retry collection (missing fields use defaults)
+ * @returns Resolved retry policy; maxAttempts is 1 when retries are not configured
+ */
+export function getRetryPolicy(retryParam: IDataObject): RetryPolicy {
+	const maxAttempts = Number(retryParam.maxAttempts ?? 1);
+	return {
+		maxAttempts: Number.isFinite(maxAttempts) && maxAttempts > 1 ? Math.floor(maxAttempts) : 1,
+		initialDelay: Number(retryParam.initialDelay ?? 1000),
+		maxDelay: Number(retryParam.maxDelay ?? 30000),
+		jitter: retryParam.jitter !== false,
+		retryOnStatusCodes: splitList(String(retryParam.retryOnStatusCodes ?? DEFAULT_RETRY_STATUS_CODES))
+			.map((code) => parseInt(code, 10))
+			.filter((code) => !isNaN(code)),
+		retryOnErrorCodes: splitList(String(retryParam.retryOnErrorCodes ?? DEFAULT_RETRY_ERROR_CODES)).map(
+			(code) => code.toUpperCase(),
+		),
+		respectRetryAfter: retryParam.respectRetryAfter !== false,
+	};
+}
+
+/**
+ * Extract failure details from an error thrown by either transfer leg
+ *
+ * Handles TransferError as well as errors thrown by n8n's helpers.request(),
+ * which expose the status code and response in different places.
+ *
+ * @param error - Thrown error
+ * @returns Status code, error code and response headers if available
+ */
+export function getAttemptFailure(error: unknown): AttemptFailure {
+	if (typeof error !== 'object' || error === null) {
+		return {};
+	}
+	const err = error as {
+		statusCode?: number;
+		httpCode?: string;
+		code?: string;
+		headers?: Record<string, unknown>;
+		response?: { status?: number; statusCode?: number; headers?: Record<string, unknown> };
+		cause?: { code?: string };
+	};
+
+	const statusCode =
+		err.statusCode ??
+		err.response?.status ??
+		err.response?.statusCode ??
+		(err.httpCode ? parseInt(err.httpCode, 10) : undefined);
+
+	return {
+		statusCode: statusCode !== undefined && !isNaN(statusCode) ? statusCode : undefined,
+		code: err.code ?? err.cause?.code,
+		headers: err.headers ?? err.response?.headers,
+	};
+}
+
+/**
+ * Parse a Retry-After header value
+ *
+ * @param value - Header value: delay in seconds or an HTTP date
+ * @param now - Current time in milliseconds (for testing)
+ * @returns Delay in milliseconds, or null if the value is missing or invalid
+ */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | null {
+	if (typeof value !== 'string' || value.trim() === '') {
+		return null;
+	}
+	if (/^\d+$/.test(value.trim())) {
+		return parseInt(value.trim(), 10) * 1000;
+	}
+	const date = Date.parse(value);
+	if (isNaN(date)) {
+		return null;
+	}
+	return Math.max(0, date - now);
+}
+
+/**
+ * Check whether a failed attempt is retryable under the given policy
+ *
+ * @param failure - Failure details of the attempt
+ * @param policy - Retry policy
+ * @returns True if the status code or error code is listed as retryable
+ */
+export function isRetryable(failure: AttemptFailure, policy: RetryPolicy): boolean {
+	if (failure.statusCode !== undefined && policy.retryOnStatusCodes.includes(failure.statusCode)) {
+		return true;
+	}
+	return failure.code !== undefined && policy.retryOnErrorCodes.includes(failure.code.toUpperCase());
+}
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param failure - Failure details of that attempt
+ * @param policy - Retry policy
+ * @returns Delay in milliseconds, or null if no further attempt should be made
+ */
+export function getRetryDelay(attempt: number, failure: AttemptFailure, policy: RetryPolicy): number | null {
+	if (attempt >= policy.maxAttempts || !isRetryable(failure, policy)) {
+		return null;
+	}
+
+	if (policy.respectRetryAfter) {
+		const retryAfter = parseRetryAfter(failure.headers?.['retry-after']);
+		if (retryAfter !== null) {
+			return Math.min(retryAfter, policy.maxDelay);
+		}
+	}
+
+	const delay = Math.min(policy.initialDelay * Math.pow(2, attempt - 1), policy.maxDelay);
+	// Equal jitter: keep at least half of the delay, randomize the rest
+	return policy.jitter ? Math.round(delay / 2 + Math.random() * (delay / 2)) : delay;
+}
+
+/**
+ * Callbacks and policy for runWithRetry
+ */
+export interface RetryOptions<T> {
+	/** Retry policy */
+	policy: RetryPolicy;
+	/** Failure of an attempt that returned a result, or undefined if it succeeded */
+	getFailure: (result: T) => AttemptFailure | undefined;
+	/** Handles a failure by refreshing credentials; true repeats the attempt right away */
+	refresh?: (failure: AttemptFailure, result: T | undefined) => Promise<boolean>;
+	/** Releases the result of a failed attempt before the next one starts */
+	discard?: (result: T) => void;
+}
+
+/**
+ * Run an operation until an attempt succeeds or the retry policy gives up
+ *
+ * An attempt fails when it throws or when getFailure reports a failure for its result.
+ *
+ * @param attempt - Runs one attempt; receives its number (1-based)
+ * @param options - Policy and callbacks
+ * @returns Result of the last attempt, which is a failed one if no retry was left
+ * @throws Error of the last attempt if it threw and no retry was left
+ */
+export async function runWithRetry<T>(
+	attempt: (attemptNumber: number) => Promise<T>,
+	options: RetryOptions<T>,
+): Promise<T> {
+	for (let attemptNumber = 1; ; attemptNumber++) {
+		let delay: number | null;
+		try {
+			const result = await attempt(attemptNumber);
+			const failure = options.getFailure(result);
+			if (!failure) {
+				return result;
+			}
+			delay = (await options.refresh?.(failure, result))
+				? 0
+				: getRetryDelay(attemptNumber, failure, options.policy);
+			if (delay === null) {
+				return result;
+			}
+			options.discard?.(result);
+		} catch (error) {
+			const failure = getAttemptFailure(error);
+			delay = (await options.refresh?.(failure, undefined))
+				? 0
+				: getRetryDelay(attemptNumber, failure, options.policy);
+			if (delay === null) {
+				throw error;
+			}
+		}
+		await new Promise((resolve) => setTimeout(resolve, delay));
+	}
+}
@@ -0,0 +1,163 @@
+/**
+ * Stream Utilities
+ *
+ * Helpers for chaining pass-through stages between the download response and the upload body,
+ * and for splitting one body into several upload bodies.
+ *
+ * @module utils/streams
+ */
+
+import { PassThrough, pipeline, Transform, type Readable, type TransformCallback } from 'stream';
+
+/**
+ * Pipe a source into a pass-through stage and return the stage as the new body
+ *
+ * Uses stream.pipeline() so that an error or destroy on either side tears down the
+ * whole chain. The error itself surfaces through the last stage, which is what the
+ * upload request consumes, so the pipeline callback has nothing left to do.
+ *
+ * @param source - Current body stream
+ * @param stage - Transform stage to append
+ * @returns The stage, to be used as the new body stream
+ */
+export function pipeStage<T extends Transform>(source: Readable, stage: T): T {
+	pipeline(source, stage, () => {
+		// Errors are propagated to the stage by pipeline()
+	});
+	return stage;
+}
+
+/**
+ * Transform stream that counts the bytes passing through it
+ *
+ * Records when the first byte arrived so the operation can report time to first byte.
+ */
+export class CountingStream extends Transform {
+	/** Number of bytes forwarded so far */
+	bytes = 0;
+
+	/** Timestamp (ms) of the first chunk, or undefined if no data arrived yet */
+	firstByteAt: number | undefined;
+
+	_transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+		if (this.firstByteAt === undefined) {
+			this.firstByteAt = Date.now();
+		}
+		this.bytes += chunk.length;
+		callback(null, chunk);
+	}
+}
+
+/**
+ * Split a stream into several branches that each receive every chunk
+ *
+ * The source is paused while any branch is over its buffer limit, so data flows at the
+ * pace of the slowest consumer and memory stays bounded. A branch that is destroyed
+ * (e.g. because its upload failed) no longer holds back the others; when every branch
+ * is gone the source is destroyed as well. Source errors are forwarded to all branches.
+ *
+ * @param source - Stream to split
+ * @param count - Number of branches
+ * @returns The branches, in order
+ */
+export function teeStream(source: Readable, count: number): PassThrough[] {
+	const branches = Array.from({ length: count }, () => new PassThrough());
+	const active = new Set(branches);
+	const waiting = new Set<PassThrough>();
+	let ended = false;
+
+	const resumeIfDrained = () => {
+		if (waiting.size === 0 && source.isPaused()) {
+			source.resume();
+		}
+	};
+
+	for (const branch of branches) {
+		branch.on('drain', () => {
+			waiting.delete(branch);
+			resumeIfDrained();
+		});
+		branch.on('close', () => {
+			active.delete(branch);
+			waiting.delete(branch);
+			if (active.size === 0) {
+				source.destroy();
+			} else {
+				resumeIfDrained();
+			}
+		});
+	}
+
+	source.on('data', (chunk: Buffer) => {
+		for (const branch of active) {
+			if (!branch.write(chunk)) {
+				waiting.add(branch);
+			}
+		}
+		if (waiting.size > 0) {
+			source.pause();
+		}
+	});
+	source.on('end', () => {
+		ended = true;
+		for (const branch of active) {
+			branch.end();
+		}
+	});
+	source.on('error', (error) => {
+		for (const branch of active) {
+			branch.destroy(error);
+		}
+	});
+	source.on('close', () => {
+		if (!ended) {
+			for (const branch of active) {
+				branch.destroy(new Error('Download stream closed before the end of the file'));
+			}
+		}
+	});
+
+	return branches;
+}
+
+/**
+ * Read the first bytes of a stream without consuming them
+ *
+ * The bytes are pushed back with unshift(), so the stream still delivers every byte to the
+ * next consumer. Resolves with fewer bytes if the stream ends first.
+ *
+ * @param stream - Byte stream (not in object mode) that has not been read yet
+ * @param length - Number of bytes to peek at
+ * @returns The first bytes of the stream
+ */
+export function peekStream(stream: Readable, length: number): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const cleanup = () => {
+			stream.off('readable', onReadable);
+			stream.off('end', onEnd);
+			stream.off('error', onError);
+		};
+		const onReadable = () => {
+			// read(n) returns null until n bytes are buffered, or the rest once the source ended
+			const head: Buffer | null = stream.read(length);
+			if (head === null) {
+				return;
+			}
+			cleanup();
+			stream.unshift(head);
+			resolve(head);
+		};
+		const onEnd = () => {
+			cleanup();
+			resolve(Buffer.alloc(0));
+		};
+		const onError = (error: Error) => {
+			cleanup();
+			reject(error);
+		};
+
+		stream.on('readable', onReadable);
+		stream.once('end', onEnd);
+		stream.once('error', onError);
+	});
+}
@@ -0,0 +1,128 @@
+/**
+ * Upload Templates
+ *
+ * Placeholders in the upload URL and upload headers that are filled in from the download,
+ * after its response headers arrived and before the upload request is sent:
+ * - {{filename}}: File name from Content-Disposition, otherwise the last segment of the download URL
+ * - {{ext}}: Extension of that file name without the dot (empty if it has none)
+ * - {{contentType}}: Content-Type of the upload (see Content-Type Source)
+ * - {{size}}: File size in bytes from Content-Length
+ * - {{sha256-prefix}}: First 8 hex characters of the SHA-256 announced by the source
+ *
+ * {{size}} and {{sha256-prefix}} fail the transfer if the source does not report the value,
+ * because the data is streamed and not known before the upload starts.
+ *
+ * @module utils/template
+ */
+
+import * as path from 'path';
+import { TransferError } from '../GenericFunctions';
+
+/**
+ * Names of the supported placeholders
+ */
+export type UploadPlaceholder = 'filename' | 'ext' | 'contentType' | 'size' | 'sha256-prefix';
+
+/**
+ * Values of the placeholders; undefined if the download did not provide one
+ */
+export type UploadTemplateValues = Record<UploadPlaceholder, string | undefined>;
+
+/**
+ * How placeholder values are inserted: URL-encoded, as header value or as they are
+ */
+export type UploadTemplateEncoding = 'url' | 'header' | 'none';
+
+/**
+ * Number of hex characters used by {{sha256-prefix}}
+ */
+export const SHA256_PREFIX_LENGTH = 8;
+
+/**
+ * Matches a placeholder, allowing spaces inside the braces
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*(filename|ext|contentType|size|sha256-prefix)\s*\}\}/g;
+
+/**
+ * Why a placeholder can have no value
+ */
+const MISSING_REASONS: Partial<Record<UploadPlaceholder, string>> = {
+	size: 'the download did not report a Content-Length',
+	'sha256-prefix': 'the download did not announce a SHA-256 digest (Repr-Digest, Digest or x-amz-checksum-sha256 header)',
+};
+
+/**
+ * Check whether a text contains upload placeholders
+ */
+export function hasUploadPlaceholders(text: string): boolean {
+	return new RegExp(PLACEHOLDER_PATTERN.source).test(text);
+}
+
+/**
+ * Collect the placeholder values for a download
+ *
+ * @param fileName - File name of the download
+ * @param contentType - Content-Type of the upload
+ * @param size - File size in bytes, if known
+ * @param sha256 - SHA-256 of the file as hex, if announced by the source
+ * @returns Placeholder values
+ */
+export function getUploadTemplateValues(
+	fileName: string,
+	contentType: string,
+	size: number | undefined,
+	sha256: string | null,
+): UploadTemplateValues {
+	// "." and ".." would change the meaning of a path
+	const safeFileName = fileName === '.' || fileName === '..' ? 'file' : fileName;
+	return {
+		filename: safeFileName,
+		ext: path.extname(safeFileName).slice(1).toLowerCase(),
+		contentType,
+		size: size !== undefined && !isNaN(size) ? String(size) : undefined,
+		'sha256-prefix': sha256 ? sha256.slice(0, SHA256_PREFIX_LENGTH) : undefined,
+	};
+}
+
+/**
+ * Insert a value into a header
+ *
+ * Values with non-ASCII or control characters (e.g. a file name like "Überweisung.pdf") cannot
+ * be sent in a header field and are percent-encoded as a whole, which is also the value format
+ * of an RFC 5987 parameter such as filename*=UTF-8''{{filename}}. Other values are kept.
+ */
+function encodeHeaderValue(value: string): string {
+	const printable = [...value].every((char) => char.charCodeAt(0) >= 0x20 && char.charCodeAt(0) <= 0x7e);
+	return printable ? value : encodeURIComponent(value);
+}
+
+/**
+ * Replace the placeholders in a text
+ *
+ * @param text - Upload URL, header value or object key
+ * @param values - Placeholder values
+ * @param encoding - How values are inserted: 'url' for URLs, 'header' for header values, 'none' for object keys
+ * @returns Text with all placeholders replaced
+ * @throws TransferError with code UPLOAD_TEMPLATE_UNRESOLVED if a used placeholder has no value
+ * @example
+ * resolveUploadTemplate('https://cdn.example.com/{{ext}}/{{filename}}', values, 'url')
+ * // Returns: 'https://cdn.example.com/pdf/Annual%20Report.pdf'
+ */
+export function resolveUploadTemplate(
+	text: string,
+	values: UploadTemplateValues,
+	encoding: UploadTemplateEncoding,
+): string {
+	return text.replace(PLACEHOLDER_PATTERN, (_match, name: UploadPlaceholder) => {
+		const value = values[name];
+		if (value === undefined) {
+			throw new TransferError(`Cannot resolve {{${name}}} in the upload settings: ${MISSING_REASONS[name]}`, {
+				code: 'UPLOAD_TEMPLATE_UNRESOLVED',
+			});
+		}
+		if (encoding === 'url') {
+			return encodeURIComponent(value);
+		}
+		return encoding === 'header' ? encodeHeaderValue(value) : value;
+	});
+}
@@ -0,0 +1,84 @@
+/**
+ * Bandwidth Throttling
+ *
+ * Token bucket rate limiter and a pass-through stream stage that applies it.
+ *
+ * The stage delays the transform callback until enough tokens are available, so upstream
+ * backpressure works as usual: the download socket is simply read more slowly.
+ * A single bucket can be shared by several streams to cap their combined bandwidth.
+ *
+ * @module utils/throttle
+ */
+
+import { Transform, type TransformCallback } from 'stream';
+
+/**
+ * Token bucket measured in bytes
+ *
+ * Consumers may go into debt: a chunk larger than the available tokens is accepted
+ * immediately and the consumer waits until the debt is paid back. This keeps the
+ * average rate exact, also when several streams share the bucket.
+ */
+export class TokenBucket {
+	private tokens: number;
+
+	private lastRefill = Date.now();
+
+	/**
+	 * @param bytesPerSecond - Sustained rate limit
+	 * @param burstBytes - Maximum number of tokens that can accumulate (defaults to one second of traffic)
+	 */
+	constructor(
+		readonly bytesPerSecond: number,
+		readonly burstBytes: number = bytesPerSecond,
+	) {
+		this.tokens = burstBytes;
+	}
+
+	/**
+	 * Take tokens for a chunk of data
+	 *
+	 * @param bytes - Size of the chunk
+	 * @returns Time in milliseconds the caller has to wait before sending the chunk
+	 */
+	take(bytes: number): number {
+		const now = Date.now();
+		this.tokens = Math.min(
+			this.burstBytes,
+			this.tokens + ((now - this.lastRefill) * this.bytesPerSecond) / 1000,
+		);
+		this.lastRefill = now;
+		this.tokens -= bytes;
+		return this.tokens >= 0 ? 0 : Math.ceil((-this.tokens * 1000) / this.bytesPerSecond);
+	}
+}
+
+/**
+ * Transform stream that limits throughput using a token bucket
+ */
+export class ThrottleStream extends Transform {
+	private timer: NodeJS.Timeout | undefined;
+
+	constructor(private readonly bucket: TokenBucket) {
+		super();
+	}
+
+	_transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+		const wait = this.bucket.take(chunk.length);
+		if (wait === 0) {
+			callback(null, chunk);
+			return;
+		}
+		this.timer = setTimeout(() => {
+			this.timer = undefined;
+			callback(null, chunk);
+		}, wait);
+	}
+
+	_destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+		}
+		callback(error);
+	}
+}
@@ -0,0 +1,117 @@
+/**
+ * TLS Options
+ *
+ * Builds the TLS settings applied to HTTPS connections of both legs from the optional
+ * TLS credential (custom CA, client certificate and key) and the "Ignore SSL Issues" switch.
+ *
+ * A custom CA is added to the default CA certificates instead of replacing them, so public
+ * endpoints keep working when only an internal host uses a private CA. Where Node.js provides
+ * tls.getCACertificates() (22.15 and later) the default set includes NODE_EXTRA_CA_CERTS and,
+ * with --use-system-ca, the system store; older versions only expose the bundled root
+ * certificates, so extra CAs from the environment are not trusted while a credential CA is set.
+ *
+ * @module utils/tls
+ */
+
+import type { IRequestOptions } from 'n8n-workflow';
+import * as tls from 'tls';
+
+/**
+ * Fields of the TLS credential type
+ */
+export interface TlsCredentials {
+	/** PEM encoded CA certificate(s) trusted in addition to the default roots */
+	ca?: string;
+	/** PEM encoded client certificate (chain) for mutual TLS */
+	cert?: string;
+	/** PEM encoded private key of the client certificate */
+	key?: string;
+	/** Passphrase of an encrypted private key */
+	passphrase?: string;
+}
+
+/**
+ * TLS settings passed to https.request, tls.connect and n8n's request helper
+ */
+export interface TlsOptions {
+	ca?: string[];
+	cert?: string;
+	key?: string;
+	passphrase?: string;
+	rejectUnauthorized: boolean;
+}
+
+/**
+ * Get the CA certificates Node.js trusts by default
+ *
+ * @returns PEM certificates, including NODE_EXTRA_CA_CERTS where Node.js exposes them
+ */
+function getDefaultCaCertificates(): readonly string[] {
+	const { getCACertificates } = tls as { getCACertificates?: (type: 'default') => string[] };
+	return getCACertificates ? getCACertificates('default') : tls.rootCertificates;
+}
+
+/**
+ * Normalize a PEM value entered in a credential field
+ *
+ * Single-line values with escaped "\n" sequences (e.g. copied from JSON or environment
+ * variables) are turned back into multi-line PEM.
+ *
+ * @param value - PEM text
+ * @returns Trimmed PEM, or undefined if empty
+ */
+export function normalizePem(value: string | undefined): string | undefined {
+	const trimmed = value?.trim();
+	if (!trimmed) {
+		return undefined;
+	}
+	return trimmed.replace(/\\n/g, '\n');
+}
+
+/**
+ * Build TLS options
+ *
+ * @param credentials - TLS credential, if one is selected for this leg
+ * @param ignoreSslIssues - Whether certificate validation is disabled
+ * @returns Options for HTTPS connections
+ * @throws Error if only one of certificate and key is given
+ */
+export function getTlsOptions(credentials: TlsCredentials | undefined, ignoreSslIssues: boolean): TlsOptions {
+	const options: TlsOptions = { rejectUnauthorized: !ignoreSslIssues };
+	if (!credentials) {
+		return options;
+	}
+
+	const ca = normalizePem(credentials.ca);
+	const cert = normalizePem(credentials.cert);
+	const key = normalizePem(credentials.key);
+	if (Boolean(cert) !== Boolean(key)) {
+		throw new Error('TLS credential needs both a client certificate and a private key for mutual TLS');
+	}
+
+	if (ca) {
+		options.ca = [...getDefaultCaCertificates(), ca];
+	}
+	if (cert && key) {
+		options.cert = cert;
+		options.key = key;
+		if (credentials.passphrase) {
+			options.passphrase = credentials.passphrase;
+		}
+	}
+	return options;
+}
+
+/**
+ * Add TLS settings to a request made through n8n's request helper
+ *
+ * @param requestOptions - Request options to modify
+ * @param tlsOptions - TLS settings of the upload leg
+ */
+export function applyRequestTls(requestOptions: IRequestOptions, tlsOptions: TlsOptions): void {
+	requestOptions.rejectUnauthorized = tlsOptions.rejectUnauthorized;
+	const { rejectUnauthorized: _rejectUnauthorized, ...agentOptions } = tlsOptions;
+	if (Object.keys(agentOptions).length > 0) {
+		requestOptions.agentOptions = agentOptions;
+	}
+}